@@ -22,6 +22,7 @@ import {
 } from './wasm-loader';
 import { writeBeve } from './encoder';
 import { readBeve } from './decoder';
+import { config, read_compressed } from './utils';
 
 let wasmInitialized = false;
 let wasmInitPromise: Promise<boolean> | null = null;
@@ -65,6 +66,38 @@ export async function initWasm(): Promise<boolean> {
   return wasmInitPromise;
 }
 
+/**
+ * Check whether the WASM bridge can encode a value without losing data
+ *
+ * The Go bridge only understands JSON-like values; anything else (Date, Map,
+ * Set, TypedArrays including Uint8Array, bigint) would be dropped or turned
+ * into an object, so it is encoded with TypeScript instead.
+ */
+function wasmCanEncode(value: any): boolean {
+  if (value === null || value === undefined) {
+    return true;
+  }
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return true;
+    case 'object':
+      if (Array.isArray(value)) {
+        return value.every(wasmCanEncode);
+      }
+      if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+        return false;
+      }
+      for (const key in value) {
+        if (!wasmCanEncode(value[key])) return false;
+      }
+      return true;
+    default:
+      return false;
+  }
+}
+
 /**
  * Marshal (encode) data to BEVE binary format
  * 
@@ -79,7 +112,7 @@ export async function marshal(data: any): Promise<Uint8Array> {
     await initWasm();
   }
 
-  if (!wasmDisabled && cachedWasmModule) {
+  if (!wasmDisabled && cachedWasmModule && wasmCanEncode(data)) {
     try {
       const result = cachedWasmModule.marshal(data);
 
@@ -115,7 +148,7 @@ export async function unmarshal(bytes: Uint8Array): Promise<any> {
     await initWasm();
   }
 
-  if (!wasmDisabled && cachedWasmModule) {
+  if (!wasmDisabled && cachedWasmModule && wasmCanDecode(bytes)) {
     try {
       const result = cachedWasmModule.unmarshal(bytes);
 
@@ -137,6 +170,60 @@ export async function unmarshal(bytes: Uint8Array): Promise<any> {
   return readBeve(bytes);
 }
 
+/**
+ * Check whether the WASM bridge can represent every value in a payload
+ *
+ * The Go bridge returns null for typed arrays (header type 4) and extensions
+ * instead of failing, so those payloads are decoded with TypeScript.
+ * Walks headers and sizes only; no values are materialized.
+ */
+function wasmCanDecode(bytes: Uint8Array): boolean {
+  const cursor = { value: 0 };
+
+  const scan = (): boolean => {
+    const header = bytes[cursor.value++];
+    switch (header & 0b111) {
+      case 0:
+        return true;
+      case 1:
+        cursor.value += config[(header & 0b11100000) >> 5];
+        return true;
+      case 2:
+        cursor.value += read_compressed(bytes, cursor);
+        return true;
+      case 3: {
+        const isString = ((header & 0b00011000) >> 3) === 0;
+        const N = read_compressed(bytes, cursor);
+        for (let i = 0; i < N; ++i) {
+          if (isString) {
+            cursor.value += read_compressed(bytes, cursor);
+          } else {
+            cursor.value += config[(header & 0b11100000) >> 5];
+          }
+          if (!scan()) return false;
+        }
+        return true;
+      }
+      case 5: {
+        const N = read_compressed(bytes, cursor);
+        for (let i = 0; i < N; ++i) {
+          if (!scan()) return false;
+        }
+        return true;
+      }
+      default:
+        return false;
+    }
+  };
+
+  try {
+    return scan();
+  } catch {
+    // Malformed input: let the WASM decoder report it
+    return true;
+  }
+}
+
 /**
  * Synchronous marshal (TypeScript only)
  * Use this when you know WASM is not needed or in sync contexts
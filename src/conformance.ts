@@ -0,0 +1,294 @@
+/**
+ * BEVE Conformance Corpus
+ *
+ * Golden fixtures for checking an implementation against the BEVE spec and
+ * the other implementations we exchange data with (glaze, Go, Python).
+ *
+ * Each fixture is a `.beve` file (tests/fixtures/conformance/<name>.beve)
+ * written byte-by-byte from the spec, plus the JS value it must decode to.
+ * The runner checks three things per fixture:
+ * - decode:    decode(golden bytes) equals the expected value
+ * - roundtrip: decode(encode(expected)) equals the expected value
+ * - encode:    encode(expected) reproduces the golden bytes exactly
+ *              (only for canonical fixtures, where the spec leaves the
+ *              writer no choice; a JS number has no fixed integer width and
+ *              an array may be written typed or generic, so those are not)
+ *
+ * Usage:
+ *   const report = runConformance(
+ *     { name: 'typescript', decode: readBeve, encode: writeBeve },
+ *     name => fs.readFileSync(`tests/fixtures/conformance/${name}.beve`)
+ *   );
+ *   console.log(formatConformanceReport(report));
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Spec features covered by the corpus, used to group the report
+ */
+export type ConformanceFeature =
+    | 'null'
+    | 'boolean'
+    | 'integer'
+    | 'float'
+    | 'string'
+    | 'object'
+    | 'integer-keyed-object'
+    | 'typed-array'
+    | 'generic-array'
+    | 'nesting'
+    | 'spec-extension';
+
+export interface ConformanceFixture {
+    /** Fixture file name without the .beve extension */
+    name: string;
+    feature: ConformanceFeature;
+    /** Value the golden bytes decode to (with default decode options) */
+    expected: any;
+    /** True when a conforming writer must produce exactly the golden bytes */
+    canonical: boolean;
+}
+
+/**
+ * An implementation under test; encode is optional for decode-only codecs
+ */
+export interface ConformanceCodec {
+    name: string;
+    decode(bytes: Uint8Array): any;
+    encode?(value: any): Uint8Array;
+}
+
+export type ConformanceCheck = 'decode' | 'roundtrip' | 'encode';
+
+export interface ConformanceResult {
+    fixture: string;
+    feature: ConformanceFeature;
+    check: ConformanceCheck;
+    passed: boolean;
+    /** Mismatch or exception message for failed checks */
+    error?: string;
+}
+
+export interface ConformanceReport {
+    codec: string;
+    results: ConformanceResult[];
+    /** Pass/fail counts per spec feature */
+    features: Record<string, { passed: number; failed: number }>;
+    passed: number;
+    failed: number;
+}
+
+// ============================================================================
+// Corpus
+// ============================================================================
+
+export const CONFORMANCE_CORPUS: ConformanceFixture[] = [
+    { name: 'null', feature: 'null', expected: null, canonical: true },
+    { name: 'bool-true', feature: 'boolean', expected: true, canonical: true },
+    { name: 'bool-false', feature: 'boolean', expected: false, canonical: true },
+
+    { name: 'int8', feature: 'integer', expected: -5, canonical: false },
+    { name: 'uint8', feature: 'integer', expected: 42, canonical: false },
+    { name: 'int16', feature: 'integer', expected: -1000, canonical: false },
+    { name: 'uint16', feature: 'integer', expected: 1000, canonical: false },
+    { name: 'int32', feature: 'integer', expected: -100000, canonical: false },
+    { name: 'uint32', feature: 'integer', expected: 4000000000, canonical: false },
+    { name: 'int64', feature: 'integer', expected: -(2 ** 40), canonical: false },
+    { name: 'uint64-unsafe', feature: 'integer', expected: 2n ** 63n, canonical: false },
+
+    { name: 'float32', feature: 'float', expected: 1.5, canonical: false },
+    { name: 'float64', feature: 'float', expected: 0.1, canonical: true },
+
+    { name: 'string-ascii', feature: 'string', expected: 'hello', canonical: true },
+    { name: 'string-utf8', feature: 'string', expected: 'héllo 世界', canonical: true },
+    { name: 'string-empty', feature: 'string', expected: '', canonical: true },
+    { name: 'string-two-byte-size', feature: 'string', expected: 'a'.repeat(100), canonical: true },
+
+    { name: 'object-string-keys', feature: 'object', expected: { a: true, b: 'x' }, canonical: true },
+    { name: 'object-utf8-keys', feature: 'object', expected: { 'größe': true, '名前': 'x' }, canonical: true },
+
+    // glaze std::map<uint32_t, std::string> and std::map<int8_t, bool>
+    { name: 'object-uint32-keys', feature: 'integer-keyed-object', expected: { 1: 'a', 2: 'b' }, canonical: false },
+    { name: 'object-int8-keys', feature: 'integer-keyed-object', expected: { '-1': true }, canonical: false },
+
+    { name: 'typed-array-int32', feature: 'typed-array', expected: [1, -2, 3], canonical: false },
+    { name: 'typed-array-uint8', feature: 'typed-array', expected: [1, 2, 255], canonical: false },
+    { name: 'typed-array-int64', feature: 'typed-array', expected: [-1, 2], canonical: false },
+    { name: 'typed-array-float32', feature: 'typed-array', expected: [1.5], canonical: false },
+    { name: 'typed-array-float64', feature: 'typed-array', expected: [0.5, -1], canonical: false },
+    { name: 'typed-array-bool', feature: 'typed-array', expected: [true, false, true, true, false], canonical: false },
+    { name: 'typed-array-string', feature: 'typed-array', expected: ['abc', 'é'], canonical: false },
+
+    { name: 'generic-array-mixed', feature: 'generic-array', expected: [1, 'a', null, true], canonical: false },
+    { name: 'generic-array-empty', feature: 'generic-array', expected: [], canonical: false },
+
+    { name: 'nested', feature: 'nesting', expected: { list: [{ x: 1 }], n: null }, canonical: false },
+
+    // glaze std::variant<int32_t, std::string> holding "x", and a 2x3 row-major matrix
+    { name: 'variant', feature: 'spec-extension', expected: 'x', canonical: false },
+    {
+        name: 'matrix',
+        feature: 'spec-extension',
+        expected: { layout: 'layout_right', extents: [2, 3], value: [1, 2, 3, 4, 5, 6] },
+        canonical: false,
+    },
+    // glaze std::complex<float> and std::vector<std::complex<double>>
+    { name: 'complex-number', feature: 'spec-extension', expected: { re: 1.5, im: -2 }, canonical: false },
+    {
+        name: 'complex-array',
+        feature: 'spec-extension',
+        expected: [{ re: 1, im: 2 }, { re: 3, im: -4 }],
+        canonical: false,
+    },
+];
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run a codec against the corpus
+ *
+ * @param codec - Implementation under test
+ * @param load - Returns the golden bytes of a fixture by name
+ * @param corpus - Fixtures to run (defaults to the full corpus)
+ */
+export function runConformance(
+    codec: ConformanceCodec,
+    load: (name: string) => Uint8Array,
+    corpus: ConformanceFixture[] = CONFORMANCE_CORPUS
+): ConformanceReport {
+    const results: ConformanceResult[] = [];
+
+    const check = (fixture: ConformanceFixture, kind: ConformanceCheck, run: () => string | null) => {
+        let error: string | null;
+        try {
+            error = run();
+        } catch (e) {
+            error = (e as Error).message;
+        }
+        results.push({
+            fixture: fixture.name,
+            feature: fixture.feature,
+            check: kind,
+            passed: error === null,
+            ...(error === null ? {} : { error }),
+        });
+    };
+
+    for (const fixture of corpus) {
+        const golden = load(fixture.name);
+
+        check(fixture, 'decode', () => describe_mismatch(codec.decode(golden), fixture.expected));
+
+        const encode = codec.encode;
+        if (encode) {
+            check(fixture, 'roundtrip', () => describe_mismatch(codec.decode(encode(fixture.expected)), fixture.expected));
+            if (fixture.canonical) {
+                check(fixture, 'encode', () => {
+                    const actual = to_hex(encode(fixture.expected));
+                    const expected = to_hex(golden);
+                    return actual === expected ? null : `bytes ${actual} != golden ${expected}`;
+                });
+            }
+        }
+    }
+
+    const features: Record<string, { passed: number; failed: number }> = {};
+    for (const result of results) {
+        const counts = features[result.feature] || (features[result.feature] = { passed: 0, failed: 0 });
+        if (result.passed) {
+            counts.passed++;
+        } else {
+            counts.failed++;
+        }
+    }
+
+    const passed = results.filter(result => result.passed).length;
+    return { codec: codec.name, results, features, passed, failed: results.length - passed };
+}
+
+/**
+ * Render a report as plain text: one line per feature, then the failures
+ */
+export function formatConformanceReport(report: ConformanceReport): string {
+    const lines = [`BEVE conformance: ${report.codec} (${report.passed} passed, ${report.failed} failed)`];
+
+    for (const [feature, counts] of Object.entries(report.features)) {
+        const status = counts.failed === 0 ? 'PASS' : 'FAIL';
+        lines.push(`  ${status}  ${feature.padEnd(22)} ${counts.passed}/${counts.passed + counts.failed}`);
+    }
+
+    for (const result of report.results) {
+        if (!result.passed) {
+            lines.push(`  - ${result.fixture} [${result.check}]: ${result.error}`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function to_hex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function show(value: any): string {
+    try {
+        return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? `${v}n` : v) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Compare a decoded value to the expected one; returns null when equal.
+ * Typed arrays compare equal to plain arrays with the same elements, since
+ * decoders may return either.
+ */
+function describe_mismatch(actual: any, expected: any, path = '$'): string | null {
+    if (Object.is(actual, expected)) {
+        return null;
+    }
+
+    const fail = () => `${path}: got ${show(actual)}, expected ${show(expected)}`;
+
+    if (Array.isArray(expected)) {
+        if (!Array.isArray(actual) && !(ArrayBuffer.isView(actual) && !(actual instanceof DataView))) {
+            return fail();
+        }
+        const items = actual as ArrayLike<any>;
+        if (items.length !== expected.length) {
+            return `${path}: length ${items.length}, expected ${expected.length}`;
+        }
+        for (let i = 0; i < expected.length; i++) {
+            const mismatch = describe_mismatch(items[i], expected[i], `${path}[${i}]`);
+            if (mismatch) return mismatch;
+        }
+        return null;
+    }
+
+    if (expected !== null && typeof expected === 'object') {
+        if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+            return fail();
+        }
+        const actualKeys = Object.keys(actual).sort();
+        const expectedKeys = Object.keys(expected).sort();
+        if (actualKeys.join('\u0000') !== expectedKeys.join('\u0000')) {
+            return `${path}: keys ${show(actualKeys)}, expected ${show(expectedKeys)}`;
+        }
+        for (const key of expectedKeys) {
+            const mismatch = describe_mismatch(actual[key], expected[key], `${path}.${key}`);
+            if (mismatch) return mismatch;
+        }
+        return null;
+    }
+
+    return fail();
+}
@@ -0,0 +1,261 @@
+// Reference: https://github.com/stephenberry/beve
+
+// Decoding state and the helpers shared by readBeve and the extension
+// decoders. The extensions import this module rather than the decoder, which
+// imports them, so the two never depend on each other at load time.
+
+import {
+    compilePaths,
+    LITTLE_ENDIAN,
+    swapByteOrder,
+    NumericTypedArray,
+    NumericTypedArrayConstructor
+} from './utils';
+import type { DecodeOptions, Int64Mode, TypedArrayMode } from './decoder';
+
+export const DEFAULT_DECODE_OPTIONS: DecodeOptions = {
+    typedArrays: 'array',
+    int64: 'auto',
+    integerKeys: 'object',
+    asMap: false,
+    asSet: false,
+    dates: 'date',
+    variants: 'value',
+    complex: 'object',
+    nestedArrays: 'nested',
+    tables: 'rows',
+    dictionaries: 'strings',
+    extensionLayout: 'spec',
+    maxDepth: 1000,
+    maxArrayLength: Infinity,
+    maxObjectKeys: Infinity,
+    maxStringBytes: Infinity,
+    maxBinaryBytes: Infinity,
+    maxTotalAllocations: Infinity,
+};
+
+type DecodeLimit = 'maxArrayLength' | 'maxObjectKeys' | 'maxStringBytes' | 'maxBinaryBytes';
+
+/**
+ * Convert a decoded 64-bit integer according to the int64 option
+ */
+export function convertInt64(value: bigint, mode: Int64Mode = 'auto'): number | bigint | string {
+    switch (mode) {
+        case 'bigint':
+            return value;
+        case 'number':
+            return Number(value);
+        case 'string':
+            return value.toString();
+        default:
+            return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+                ? Number(value)
+                : value;
+    }
+}
+
+/**
+ * Per-call decoding state shared by readBeve and the extension decoders
+ */
+export interface DecodeContext {
+    /** Options merged with DEFAULT_DECODE_OPTIONS */
+    options: DecodeOptions;
+    /** Compiled asMap/asSet paths (booleans apply everywhere) */
+    mapPaths: string[][] | boolean;
+    setPaths: string[][] | boolean;
+    /** Path of the value being read; only maintained when trackPath is set */
+    path: string[];
+    trackPath: boolean;
+    /** Current container nesting */
+    depth: number;
+    /** Running total checked against maxTotalAllocations */
+    allocated: number;
+}
+
+export function createDecodeContext(options: DecodeOptions = {}): DecodeContext {
+    const merged = { ...DEFAULT_DECODE_OPTIONS, ...options };
+    const mapPaths = compilePaths(merged.asMap);
+    const setPaths = compilePaths(merged.asSet);
+    return {
+        options: merged,
+        mapPaths,
+        setPaths,
+        path: [],
+        trackPath: typeof mapPaths !== 'boolean' || typeof setPaths !== 'boolean',
+        depth: 0,
+        allocated: 0,
+    };
+}
+
+/**
+ * Validate a size read from the input before allocating for it: against its
+ * limit, the total budget, and the bytes left (each unit needs at least
+ * minBytes of input, so lying headers fail fast)
+ */
+export function reserve_internal(
+    buffer: Uint8Array,
+    cursor: { value: number },
+    ctx: DecodeContext,
+    size: number,
+    limit: DecodeLimit,
+    minBytes: number
+) {
+    const max = ctx.options[limit]!;
+    if (size > max) {
+        throw new Error(`Decode limit exceeded: size ${size} > ${limit} ${max}`);
+    }
+    if (size * minBytes > buffer.length - cursor.value) {
+        throw new Error(`Buffer overflow: size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    ctx.allocated += size;
+    if (ctx.allocated > ctx.options.maxTotalAllocations!) {
+        throw new Error(`Decode limit exceeded: ${ctx.allocated} > maxTotalAllocations ${ctx.options.maxTotalAllocations}`);
+    }
+}
+
+/**
+ * Go one container (or extension payload) deeper, checking maxDepth; the
+ * caller decrements ctx.depth when done
+ */
+export function enter_internal(ctx: DecodeContext) {
+    if (++ctx.depth > ctx.options.maxDepth!) {
+        throw new Error(`Decode limit exceeded: depth ${ctx.depth} > maxDepth ${ctx.options.maxDepth}`);
+    }
+}
+
+/**
+ * Store a just-read property, element or Map value in its holder and pass it
+ * through the reviver, leaving it out when the reviver returns undefined.
+ * Called as each value is read, so the reviver sees keys in JSON.parse's
+ * order: a container's entries, then the container. The holder has no
+ * entries after this one yet, where JSON.parse's holder is complete.
+ */
+export function revive_entry_internal(ctx: DecodeContext, holder: any, key: string | number | bigint, value: any) {
+    const reviver = ctx.options.reviver;
+    if (holder instanceof Map) {
+        holder.set(key, value);
+        if (reviver) {
+            const revived = reviver.call(holder, String(key), value);
+            if (revived === undefined) {
+                holder.delete(key);
+            } else {
+                holder.set(key, revived);
+            }
+        }
+        return;
+    }
+    holder[key as any] = value;
+    if (reviver) {
+        const revived = reviver.call(holder, String(key), value);
+        if (revived === undefined) {
+            delete holder[key as any];
+        } else {
+            holder[key as any] = revived;
+        }
+    }
+}
+
+/**
+ * Pass each property or element of a container built whole (arrays of
+ * scalars, rows assembled from columns) through the reviver, deleting those
+ * it returns undefined for
+ */
+export function revive_internal<T>(ctx: DecodeContext, container: T): T {
+    const reviver = ctx.options.reviver;
+    if (!reviver) {
+        return container;
+    }
+    const holder = container as any;
+    for (const key of Object.keys(holder)) {
+        const revived = reviver.call(holder, key, holder[key]);
+        if (revived === undefined) {
+            delete holder[key];
+        } else {
+            holder[key] = revived;
+        }
+    }
+    return container;
+}
+
+/**
+ * Read N elements of a numeric typed array with one bulk copy, or as a
+ * zero-copy view in 'native' mode when the data is suitably aligned
+ */
+export function read_typed_array_internal(
+    buffer: Uint8Array,
+    cursor: { value: number },
+    Ctor: NumericTypedArrayConstructor,
+    N: number,
+    mode: TypedArrayMode = 'copy'
+): NumericTypedArray {
+    const elementSize = Ctor.BYTES_PER_ELEMENT;
+    const byteLength = N * elementSize;
+    if (cursor.value + byteLength > buffer.length) {
+        throw new Error(`Buffer overflow: typed array size ${N} at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+
+    const start = buffer.byteOffset + cursor.value;
+    let array: NumericTypedArray;
+    if (mode === 'native' && LITTLE_ENDIAN && start % elementSize === 0) {
+        array = new Ctor(buffer.buffer, start, N);
+    } else {
+        const bytes = buffer.slice(cursor.value, cursor.value + byteLength);
+        if (!LITTLE_ENDIAN) {
+            swapByteOrder(bytes, elementSize);
+        }
+        array = new Ctor(bytes.buffer, 0, N);
+    }
+    cursor.value += byteLength;
+    return array;
+}
+
+// ============================================================================
+// Value Reader
+// ============================================================================
+
+type ValueReader = (buffer: Uint8Array, cursor: { value: number }, ctx: DecodeContext) => any;
+
+// The decoder's read_value, bound when decoder.ts loads
+let reader: ValueReader | null = null;
+
+/**
+ * Install the reader behind read_value_internal and read_child_internal
+ * (called once by decoder.ts)
+ */
+export function bind_reader_internal(read: ValueReader) {
+    reader = read;
+}
+
+/**
+ * Read one complete BEVE value (any type, including nested extensions)
+ * Shared by readBeve and the extension decoders; pass the caller's context
+ * so options, limits and paths carry into extension payloads.
+ */
+export function read_value_internal(
+    buffer: Uint8Array,
+    cursor: { value: number },
+    ctx: DecodeContext = createDecodeContext()
+): any {
+    if (!reader) {
+        throw new Error('BEVE decoder not loaded: import readBeve before decoding extension payloads');
+    }
+    return reader(buffer, cursor, ctx);
+}
+
+/**
+ * Read a child value, recording its key in the path when needed
+ */
+export function read_child_internal(
+    buffer: Uint8Array,
+    cursor: { value: number },
+    ctx: DecodeContext,
+    key: string | number | bigint
+): any {
+    if (!ctx.trackPath) {
+        return read_value_internal(buffer, cursor, ctx);
+    }
+    ctx.path.push(String(key));
+    const value = read_value_internal(buffer, cursor, ctx);
+    ctx.path.pop();
+    return value;
+}
@@ -12,260 +12,215 @@ import {
     readUInt32,
     readBigUInt64,
     readFloat,
-    readDouble
+    readDouble,
+    readInteger,
+    matchPath,
+    TYPED_ARRAY_CONSTRUCTORS
 } from './utils';
+import {
+    DecodeContext,
+    createDecodeContext,
+    convertInt64,
+    reserve_internal,
+    enter_internal as enter,
+    revive_internal,
+    revive_entry_internal,
+    read_typed_array_internal,
+    read_child_internal,
+    bind_reader_internal,
+} from './decode-context';
 
-// Reading BEVE
-export function readBeve(buffer: Uint8Array): any {
-    if (!buffer || !(buffer instanceof Uint8Array)) {
-        throw new Error('Invalid buffer provided.');
-    }
+export {
+    DEFAULT_DECODE_OPTIONS,
+    createDecodeContext,
+    convertInt64,
+    reserve_internal,
+    revive_internal,
+    revive_entry_internal,
+    read_typed_array_internal,
+    read_child_internal,
+    read_value_internal,
+} from './decode-context';
+export type { DecodeContext } from './decode-context';
 
-    let cursor = { value: 0 };
+/**
+ * How numeric typed arrays (header type 4) are returned
+ * - 'array':  plain JS array (default)
+ * - 'copy':   TypedArray backed by a single bulk copy of the data
+ * - 'native': TypedArray view into the input buffer (zero-copy) when the
+ *             data is aligned for the element type, otherwise a copy
+ */
+export type TypedArrayMode = 'native' | 'copy' | 'array';
 
-    function read_value(): any {
-        if (cursor.value >= buffer.length) {
-            throw new Error(`Buffer overflow: cursor at ${cursor.value}, buffer length ${buffer.length}`);
-        }
+/**
+ * How objects with integer keys are returned
+ * - 'object': plain object with the keys converted to strings (default)
+ * - 'map':    Map keyed by number (or bigint/string per the int64 option)
+ */
+export type IntegerKeyMode = 'object' | 'map';
 
-        const header = buffer[cursor.value++];
-        const type = header & 0b00000111;
+/**
+ * How timestamps (Extension 4) are returned
+ * - 'date':      JavaScript Date (millisecond precision) (default)
+ * - 'timestamp': BeveTimestamp with nanoseconds and timezone offset
+ * - 'iso':       ISO 8601 string
+ */
+export type DateMode = 'date' | 'timestamp' | 'iso';
 
-        switch (type) {
-            case 0: // null or boolean
-                {
-                    const is_bool = (header & 0b00001000) >> 3;
-                    if (is_bool) {
-                        return Boolean((header & 0b11110000) >> 4);
-                    } else {
-                        return null;
-                    }
-                }
-            case 1: // number
-                {
-                    const num_type = (header & 0b00011000) >> 3;
-                    const is_float = num_type === 0;
-                    const is_signed = num_type === 1;
-                    const byte_count_index = (header & 0b11100000) >> 5;
-                    const byte_count = config[byte_count_index];
-
-                    if (is_float) {
-                        switch (byte_count) {
-                            case 4:
-                                return readFloat(buffer, cursor);
-                            case 8:
-                                return readDouble(buffer, cursor);
-                        }
-                    } else {
-                        if (is_signed) {
-                            switch (byte_count) {
-                                case 1:
-                                    return readInt8(buffer, cursor);
-                                case 2:
-                                    return readInt16(buffer, cursor);
-                                case 4:
-                                    return readInt32(buffer, cursor);
-                                case 8:
-                                    return readBigInt64(buffer, cursor);
-                            }
-                        } else {
-                            switch (byte_count) {
-                                case 1:
-                                    return readUInt8(buffer, cursor);
-                                case 2:
-                                    return readUInt16(buffer, cursor);
-                                case 4:
-                                    return readUInt32(buffer, cursor);
-                                case 8:
-                                    return readBigUInt64(buffer, cursor);
-                            }
-                        }
-                    }
-                    break;
-                }
-            case 2: // string
-                {
-                    const size = read_compressed(buffer, cursor);
-                    if (cursor.value + size > buffer.length) {
-                        throw new Error(`Buffer overflow: string size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
-                    }
-                    const str = new TextDecoder().decode(buffer.subarray(cursor.value, cursor.value + size));
-                    cursor.value += size;
-                    return str;
-                }
-            case 3: // object
-                {
-                    const key_type = (header & 0b00011000) >> 3;
-                    const is_string = key_type === 0;
-                    // const is_signed = key_type === 1; // Reserved for future use
-                    // const byte_count_index = (header & 0b11100000) >> 5; // Reserved for future use
-                    // const byte_count = config[byte_count_index]; // Reserved for future use
-                    const N = read_compressed(buffer, cursor);
-                    const objectData: any = {};
+/**
+ * How 64-bit integers are returned
+ * - 'bigint': always a bigint
+ * - 'number': always a number (may lose precision above 2^53)
+ * - 'auto':   a number when it is a safe integer, otherwise a bigint (default)
+ * - 'string': decimal string
+ */
+export type Int64Mode = 'bigint' | 'number' | 'auto' | 'string';
 
-                    for (let i = 0; i < N; ++i) {
-                        if (is_string) {
-                            const size = read_compressed(buffer, cursor);
-                            if (cursor.value + size > buffer.length) {
-                                throw new Error(`Buffer overflow: object key size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
-                            }
-                            const key = new TextDecoder().decode(buffer.subarray(cursor.value, cursor.value + size));
-                            cursor.value += size;
-                            objectData[key] = read_value();
-                        } else {
-                            throw new Error('TODO: support integer keys');
-                        }
-                    }
+/**
+ * How complex arrays (Extension 3) are returned
+ * - 'object':      { re, im }[] (default)
+ * - 'interleaved': Float64Array of [re0, im0, re1, im1, ...]
+ */
+export type ComplexMode = 'object' | 'interleaved';
 
-                    return objectData;
-                }
-            case 4: // typed array
-                {
-                    const num_type = (header & 0b00011000) >> 3;
-                    const is_float = num_type === 0;
-                    const is_signed = num_type === 1;
-                    const byte_count_index_array = (header & 0b11100000) >> 5;
-                    const byte_count_array = config[byte_count_index_array];
-
-                    if (num_type === 3) {
-                        const is_string = (header & 0b00100000) >> 5;
-                        if (is_string) {
-                            const N = read_compressed(buffer, cursor);
-                            const array = new Array(N);
-                            for (let i = 0; i < N; ++i) {
-                                const size = read_compressed(buffer, cursor);
-                                if (cursor.value + size > buffer.length) {
-                                    throw new Error(`Buffer overflow: string array element ${i} size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
-                                }
-                                const str = new TextDecoder().decode(buffer.subarray(cursor.value, cursor.value + size));
-                                cursor.value += size;
-                                array[i] = str;
-                            }
-                            return array;
-                        } else {
-                            // Boolean array support
-                            const N = read_compressed(buffer, cursor);
-                            if (cursor.value + N > buffer.length) {
-                                throw new Error(`Buffer overflow: boolean array size ${N} at cursor ${cursor.value}, buffer length ${buffer.length}`);
-                            }
-                            const array = new Array(N);
-                            for (let i = 0; i < N; ++i) {
-                                const value = buffer[cursor.value++];
-                                array[i] = Boolean(value);
-                            }
-                            return array;
-                        }
-                    } else if (is_float) {
-                        const N = read_compressed(buffer, cursor);
-                        const array = new Array(N);
-                        switch (byte_count_array) {
-                            case 4:
-                                for (let i = 0; i < N; ++i) {
-                                    array[i] = readFloat(buffer, cursor);
-                                }
-                                break;
-                            case 8:
-                                for (let i = 0; i < N; ++i) {
-                                    array[i] = readDouble(buffer, cursor);
-                                }
-                                break;
-                        }
-                        return array;
-                    } else {
-                        const N = read_compressed(buffer, cursor);
-                        const array = new Array(N);
+/**
+ * How typed nested arrays (Extension 2) are returned
+ * - 'nested':  array of inner arrays, each shaped by the typedArrays option (default)
+ * - 'offsets': { offsets, values }, inner array i being values[offsets[i] .. offsets[i + 1])
+ */
+export type NestedArrayMode = 'nested' | 'offsets';
 
-                        if (is_signed) {
-                            switch (byte_count_array) {
-                                case 1:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readInt8(buffer, cursor);
-                                    }
-                                    break;
-                                case 2:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readInt16(buffer, cursor);
-                                    }
-                                    break;
-                                case 4:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readInt32(buffer, cursor);
-                                    }
-                                    break;
-                                case 8:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readBigInt64(buffer, cursor);
-                                    }
-                                    break;
-                            }
-                        } else {
-                            switch (byte_count_array) {
-                                case 1:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readUInt8(buffer, cursor);
-                                    }
-                                    break;
-                                case 2:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readUInt16(buffer, cursor);
-                                    }
-                                    break;
-                                case 4:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readUInt32(buffer, cursor);
-                                    }
-                                    break;
-                                case 8:
-                                    for (let i = 0; i < N; ++i) {
-                                        array[i] = readBigUInt64(buffer, cursor);
-                                    }
-                                    break;
-                            }
-                        }
-                        return array;
-                    }
-                }
-            case 5: // untyped array
-                {
-                    const N = read_compressed(buffer, cursor);
-                    const unarray = new Array(N);
+/**
+ * How typed object arrays (Extensions 1 and 11) are returned
+ * - 'rows':    one object per row (default)
+ * - 'columns': { fields, columns, length }, numeric columns as TypedArrays
+ */
+export type TableMode = 'rows' | 'columns';
 
-                    for (let i = 0; i < N; ++i) {
-                        unarray[i] = read_value();
-                    }
+/**
+ * How dictionary-encoded string columns of typed object arrays are returned
+ * by decodeColumn and in 'columns' tables (rows always hold the strings)
+ * - 'strings': one string per row (default)
+ * - 'indices': { dictionary, indices }, row i holding dictionary[indices[i]]
+ */
+export type DictionaryMode = 'strings' | 'indices';
 
-                    return unarray;
-                }
-            case 6: // extension or binary data
-                {
-                    // Check if this is an extension (has extension ID in upper bits)
-                    const extId = (header & 0b11111000) >> 3;
-                    
-                    // If extId > 0, it's an extension; otherwise it's binary data
-                    if (extId > 0) {
-                        // Extension
-                        return read_extension(extId, buffer, cursor);
-                    } else {
-                        // Binary data (original case 6)
-                        const size = read_compressed(buffer, cursor);
-                        if (cursor.value + size > buffer.length) {
-                            throw new Error(`Buffer overflow: binary data size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
-                        }
-                        const data = buffer.subarray(cursor.value, cursor.value + size);
-                        cursor.value += size;
-                        return data;
-                    }
-                }
-            default:
-                throw new Error(`Unknown type: ${type}`);
-        }
+/**
+ * How spec type tags (variants) are returned
+ * - 'value':  the held value only (default)
+ * - 'tagged': { index, value }
+ */
+export type VariantMode = 'value' | 'tagged';
+
+/**
+ * Extension header layout of the input
+ * - 'spec':   current layout; type 6 carries the spec extensions and custom
+ *             extensions use type 7 (default)
+ * - 'legacy': layout written up to 1.1, with custom extensions and binary
+ *             data in type 6 headers
+ */
+export type ExtensionLayout = 'spec' | 'legacy';
+
+export interface DecodeOptions {
+    /** Representation of numeric typed arrays (default: 'array') */
+    typedArrays?: TypedArrayMode;
+
+    /** Representation of 64-bit integers (default: 'auto') */
+    int64?: Int64Mode;
+
+    /** Representation of integer-keyed objects (default: 'object') */
+    integerKeys?: IntegerKeyMode;
+
+    /**
+     * Revive objects as Map: true for every object, or a list of paths
+     * (dot-separated keys/indices, '*' matches any segment, '' is the root)
+     */
+    asMap?: boolean | string[];
+
+    /** Revive arrays as Set: true for every array, or a list of paths */
+    asSet?: boolean | string[];
+
+    /** Representation of Extension 4 timestamps (default: 'date') */
+    dates?: DateMode;
+
+    /** Representation of spec type tags (default: 'value') */
+    variants?: VariantMode;
+
+    /** Representation of complex arrays (default: 'object') */
+    complex?: ComplexMode;
+
+    /** Representation of typed nested arrays (default: 'nested') */
+    nestedArrays?: NestedArrayMode;
+
+    /** Representation of typed object arrays (default: 'rows') */
+    tables?: TableMode;
+
+    /** Representation of dictionary-encoded columns in decodeColumn and tables (default: 'strings') */
+    dictionaries?: DictionaryMode;
+
+    /** Extension header layout of the input (default: 'spec') */
+    extensionLayout?: ExtensionLayout;
+
+    /**
+     * Called for every object property, array element and Map value as soon
+     * as it is read (a container's entries, then the container), as
+     * JSON.parse's reviver: `this` is the holder, the key is a string ('' for
+     * the root) and undefined deletes the property. Unlike JSON.parse, the
+     * holder only has the entries read so far: for `{ a, b }` the reviver
+     * sees `this` without `b` when called for `a`.
+     */
+    reviver?: (this: any, key: string, value: any) => any;
+
+    // Safety limits for untrusted input, checked before anything is allocated
+
+    /** Maximum nesting of objects, arrays and extension values (default: 1000) */
+    maxDepth?: number;
+
+    /** Maximum element count of any array (default: unlimited) */
+    maxArrayLength?: number;
+
+    /** Maximum key count of any object (default: unlimited) */
+    maxObjectKeys?: number;
+
+    /** Maximum byte length of any string or object key (default: unlimited) */
+    maxStringBytes?: number;
+
+    /** Maximum byte length of any binary value (default: unlimited) */
+    maxBinaryBytes?: number;
+
+    /**
+     * Maximum sum of all array lengths, object key counts and string/binary
+     * byte lengths over the whole decode (default: unlimited)
+     */
+    maxTotalAllocations?: number;
+}
+
+// Reading BEVE
+export function readBeve(buffer: Uint8Array, options: DecodeOptions = {}): any {
+    if (!buffer || !(buffer instanceof Uint8Array)) {
+        throw new Error('Invalid buffer provided.');
     }
 
-    return read_value();
+    let cursor = { value: 0 };
+    const ctx = createDecodeContext(options);
+    return revive_root(ctx, read_value(buffer, cursor, ctx));
+}
+
+function wants(ctx: DecodeContext, paths: string[][] | boolean): boolean {
+    return typeof paths === 'boolean' ? paths : matchPath(paths, ctx.path);
 }
 
-// Export read_value for extension use
-export function read_value_internal(buffer: Uint8Array, cursor: { value: number }): any {
+function as_set(ctx: DecodeContext, array: ArrayLike<any>): any {
+    return wants(ctx, ctx.setPaths) ? new Set(Array.from(array)) : array;
+}
+
+// The root is revived last, under the key '' of a wrapper object
+function revive_root(ctx: DecodeContext, value: any): any {
+    const reviver = ctx.options.reviver;
+    return reviver ? reviver.call({ '': value }, '', value) : value;
+}
+
+function read_value(buffer: Uint8Array, cursor: { value: number }, ctx: DecodeContext): any {
     if (cursor.value >= buffer.length) {
         throw new Error(`Buffer overflow: cursor at ${cursor.value}, buffer length ${buffer.length}`);
     }
@@ -308,7 +263,7 @@ export function read_value_internal(buffer: Uint8Array, cursor: { value: number
                             case 4:
                                 return readInt32(buffer, cursor);
                             case 8:
-                                return readBigInt64(buffer, cursor);
+                                return convertInt64(readBigInt64(buffer, cursor), ctx.options.int64);
                         }
                     } else {
                         switch (byte_count) {
@@ -319,7 +274,7 @@ export function read_value_internal(buffer: Uint8Array, cursor: { value: number
                             case 4:
                                 return readUInt32(buffer, cursor);
                             case 8:
-                                return readBigUInt64(buffer, cursor);
+                                return convertInt64(readBigUInt64(buffer, cursor), ctx.options.int64);
                         }
                     }
                 }
@@ -328,6 +283,7 @@ export function read_value_internal(buffer: Uint8Array, cursor: { value: number
         case 2: // string
             {
                 const size = read_compressed(buffer, cursor);
+                reserve_internal(buffer, cursor, ctx, size, 'maxStringBytes', 1);
                 if (cursor.value + size > buffer.length) {
                     throw new Error(`Buffer overflow: string size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
                 }
@@ -335,10 +291,189 @@ export function read_value_internal(buffer: Uint8Array, cursor: { value: number
                 cursor.value += size;
                 return str;
             }
-        // ... Add other cases similar to read_value above
+        case 3: // object
+            {
+                const key_type = (header & 0b00011000) >> 3;
+                const is_string = key_type === 0;
+                const is_signed = key_type === 1;
+                const byte_count_index = (header & 0b11100000) >> 5;
+                const byte_count = config[byte_count_index];
+                const N = read_compressed(buffer, cursor);
+                // Every entry needs a key (at least a size byte) and a value header
+                reserve_internal(buffer, cursor, ctx, N, 'maxObjectKeys', is_string ? 2 : byte_count + 1);
+                enter(ctx);
+
+                if (!is_string) {
+                    if (key_type === 3) {
+                        throw new Error(`Unsupported object key type: ${key_type}`);
+                    }
+                    const map = ctx.options.integerKeys === 'map' || wants(ctx, ctx.mapPaths) ? new Map<number | bigint | string, any>() : null;
+                    const objectData: any = {};
+                    for (let i = 0; i < N; ++i) {
+                        const raw = readInteger(buffer, cursor, is_signed, byte_count);
+                        const key = typeof raw === 'bigint' ? convertInt64(raw, ctx.options.int64) : raw;
+                        const value = read_child_internal(buffer, cursor, ctx, key);
+                        revive_entry_internal(ctx, map ?? objectData, map ? key : String(key), value);
+                    }
+                    ctx.depth--;
+                    return map ?? objectData;
+                }
+
+                const map = wants(ctx, ctx.mapPaths) ? new Map<string, any>() : null;
+                const objectData: any = {};
+
+                for (let i = 0; i < N; ++i) {
+                    const size = read_compressed(buffer, cursor);
+                    reserve_internal(buffer, cursor, ctx, size, 'maxStringBytes', 1);
+                    if (cursor.value + size > buffer.length) {
+                        throw new Error(`Buffer overflow: object key size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
+                    }
+                    const key = new TextDecoder().decode(buffer.subarray(cursor.value, cursor.value + size));
+                    cursor.value += size;
+                    revive_entry_internal(ctx, map ?? objectData, key, read_child_internal(buffer, cursor, ctx, key));
+                }
+
+                ctx.depth--;
+                return map ?? objectData;
+            }
+        case 4: // typed array
+            {
+                const num_type = (header & 0b00011000) >> 3;
+                const is_float = num_type === 0;
+                const is_signed = num_type === 1;
+                const byte_count_index_array = (header & 0b11100000) >> 5;
+                const byte_count_array = config[byte_count_index_array];
+
+                if (num_type === 3) {
+                    const is_string = (header & 0b00100000) >> 5;
+                    if (is_string) {
+                        const N = read_compressed(buffer, cursor);
+                        reserve_internal(buffer, cursor, ctx, N, 'maxArrayLength', 1);
+                        const array = new Array(N);
+                        for (let i = 0; i < N; ++i) {
+                            const size = read_compressed(buffer, cursor);
+                            reserve_internal(buffer, cursor, ctx, size, 'maxStringBytes', 1);
+                            if (cursor.value + size > buffer.length) {
+                                throw new Error(`Buffer overflow: string array element ${i} size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
+                            }
+                            const str = new TextDecoder().decode(buffer.subarray(cursor.value, cursor.value + size));
+                            cursor.value += size;
+                            array[i] = str;
+                        }
+                        return as_set(ctx, revive_internal(ctx, array));
+                    } else {
+                        // Boolean array: packed 8 per byte, most significant bit first
+                        const N = read_compressed(buffer, cursor);
+                        reserve_internal(buffer, cursor, ctx, N, 'maxArrayLength', 1 / 8);
+                        const byteCount = (N + 7) >> 3;
+                        if (cursor.value + byteCount > buffer.length) {
+                            throw new Error(`Buffer overflow: boolean array size ${N} at cursor ${cursor.value}, buffer length ${buffer.length}`);
+                        }
+                        const array = new Array(N);
+                        for (let i = 0; i < N; ++i) {
+                            array[i] = (buffer[cursor.value + (i >> 3)] & (0x80 >> (i & 7))) !== 0;
+                        }
+                        cursor.value += byteCount;
+                        return as_set(ctx, revive_internal(ctx, array));
+                    }
+                } else {
+                    const Ctor = TYPED_ARRAY_CONSTRUCTORS[num_type][byte_count_index_array];
+                    if (!Ctor) {
+                        throw new Error(`Unsupported typed array element: ${byte_count_array}-byte ${is_float ? 'float' : is_signed ? 'signed' : 'unsigned'}`);
+                    }
+                    const N = read_compressed(buffer, cursor);
+                    reserve_internal(buffer, cursor, ctx, N, 'maxArrayLength', Ctor.BYTES_PER_ELEMENT);
+                    const array = read_typed_array_internal(buffer, cursor, Ctor, N, ctx.options.typedArrays);
+                    // TypedArrays are leaves; plain arrays have their elements revived
+                    if (ctx.options.typedArrays !== 'array') {
+                        return as_set(ctx, array);
+                    }
+                    if (byte_count_array === 8 && !is_float) {
+                        return as_set(ctx, revive_internal(ctx, Array.from(array as BigInt64Array | BigUint64Array, value => convertInt64(value, ctx.options.int64))));
+                    }
+                    return as_set(ctx, revive_internal(ctx, Array.from(array as ArrayLike<number>)));
+                }
+            }
+        case 5: // untyped array
+            {
+                const N = read_compressed(buffer, cursor);
+                reserve_internal(buffer, cursor, ctx, N, 'maxArrayLength', 1);
+                enter(ctx);
+                const unarray = new Array(N);
+
+                for (let i = 0; i < N; ++i) {
+                    revive_entry_internal(ctx, unarray, i, read_child_internal(buffer, cursor, ctx, i));
+                }
+
+                ctx.depth--;
+                return as_set(ctx, unarray);
+            }
+        case 6: // spec extension
+            {
+                const subtype = header >> 3;
+                if (ctx.options.extensionLayout === 'legacy') {
+                    // Custom extension ID in bits 3-7, 0 for binary data
+                    return read_extension(subtype === 0 ? ExtensionID.BINARY : subtype, buffer, cursor, ctx);
+                }
+
+                if (subtype === SpecExtension.DELIMITER) {
+                    throw new Error('Unexpected data delimiter (use readBeveDelimited for delimited streams)');
+                }
+                // Payloads can nest (a variant holding a variant), so they count toward maxDepth
+                enter(ctx);
+                const value = read_spec_extension(subtype, buffer, cursor, ctx);
+                ctx.depth--;
+                return value;
+            }
+        case 7: // custom extension
+            {
+                const { extId, size } = parseExtensionHeader(buffer, cursor.value - 1)!;
+                cursor.value += size - 1;
+                return read_extension(extId, buffer, cursor, ctx);
+            }
         default:
-            throw new Error(`Unknown type in read_value_internal: ${type}`);
+            throw new Error(`Unknown type: ${type}`);
+    }
+}
+
+// Extension decoders read nested values through read_value_internal
+bind_reader_internal(read_value);
+
+/**
+ * Read a sequence of values separated by spec data delimiters
+ * 
+ * @example
+ * const values = readBeveDelimited(bytes); // [first, second, ...]
+ */
+export function readBeveDelimited(buffer: Uint8Array, options: DecodeOptions = {}): any[] {
+    if (!buffer || !(buffer instanceof Uint8Array)) {
+        throw new Error('Invalid buffer provided.');
+    }
+
+    const delimiter = createSpecExtensionHeader(SpecExtension.DELIMITER);
+    const ctx = createDecodeContext(options);
+    const cursor = { value: 0 };
+    const values: any[] = [];
+
+    while (cursor.value < buffer.length) {
+        values.push(revive_root(ctx, read_value(buffer, cursor, ctx)));
+        if (cursor.value < buffer.length) {
+            if (buffer[cursor.value] !== delimiter) {
+                throw new Error(`Expected data delimiter at cursor ${cursor.value}`);
+            }
+            cursor.value++;
+        }
     }
+
+    return values;
+}
+
+/**
+ * Read legacy (1.1 and earlier) bytes, with custom extensions and binary
+ * data in type 6 headers
+ */
+export function readLegacyBeve(buffer: Uint8Array, options: DecodeOptions = {}): any {
+    return readBeve(buffer, { ...options, extensionLayout: 'legacy' });
 }
 
 // ============================================================================
@@ -347,32 +482,43 @@ export function read_value_internal(buffer: Uint8Array, cursor: { value: number
 
 import {
     ExtensionID,
-    detectExtension,
-    decodeTypedObjectArray,
-    decodeTimestamp,
-    decodeDuration,
-    decodeUUID,
+    SpecExtension,
+    createSpecExtensionHeader,
+    parseExtensionHeader,
+    decodeVariant,
+    decodeMatrix,
+    decodeComplex,
+    getExtension,
 } from './extensions';
 
 /**
- * Read extension data based on extension ID
+ * Read extension data through the extension registered for its ID
  */
-function read_extension(extId: number, buffer: Uint8Array, cursor: { value: number }): any {
-    switch (extId) {
-        case ExtensionID.TYPED_ARRAY:
-            return decodeTypedObjectArray(buffer, cursor);
-        
-        case ExtensionID.TIMESTAMP:
-            return decodeTimestamp(buffer, cursor);
-        
-        case ExtensionID.DURATION:
-            return decodeDuration(buffer, cursor);
-        
-        case ExtensionID.UUID:
-            return decodeUUID(buffer, cursor);
-        
+function read_extension(extId: number, buffer: Uint8Array, cursor: { value: number }, ctx: DecodeContext): any {
+    const extension = getExtension(extId);
+    if (!extension) {
+        throw new Error(`Unsupported extension ID: ${extId}`);
+    }
+    // Payloads can hold further values (table rows, class state), so they count toward maxDepth
+    enter(ctx);
+    const value = extension.decode(buffer, cursor, ctx);
+    ctx.depth--;
+    return value;
+}
+
+function read_spec_extension(subtype: number, buffer: Uint8Array, cursor: { value: number }, ctx: DecodeContext): any {
+    switch (subtype) {
+        case SpecExtension.VARIANT:
+            {
+                const variant = decodeVariant(buffer, cursor, ctx);
+                return ctx.options.variants === 'tagged' ? variant : variant.value;
+            }
+        case SpecExtension.MATRIX:
+            return decodeMatrix(buffer, cursor, ctx);
+        case SpecExtension.COMPLEX:
+            return decodeComplex(buffer, cursor, ctx);
         default:
-            throw new Error(`Unsupported extension ID: ${extId}`);
+            throw new Error(`Unsupported spec extension: ${subtype}`);
     }
 }
 
@@ -380,17 +526,10 @@ function read_extension(extId: number, buffer: Uint8Array, cursor: { value: numb
  * Decode with automatic extension detection
  * 
  * @param buffer - BEVE binary data
+ * @param options - Decoding options for standard BEVE data
  * @returns Decoded data
  */
-export function decodeAuto(buffer: Uint8Array): any {
-    const detection = detectExtension(buffer);
-    
-    if (detection.hasExtension) {
-        // Extension-encoded data
-        const cursor = { value: 1 }; // Skip header
-        return read_extension(detection.extId!, buffer, cursor);
-    } else {
-        // Standard BEVE
-        return readBeve(buffer);
-    }
-}
\ No newline at end of file
+export function decodeAuto(buffer: Uint8Array, options: DecodeOptions = {}): any {
+    // readBeve recognizes extension headers at any depth
+    return readBeve(buffer, options);
+}
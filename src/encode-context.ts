@@ -0,0 +1,117 @@
+// Reference: https://github.com/stephenberry/beve
+
+// Encoding state and the helpers shared by writeBeve and the extension
+// encoders. The extensions import this module rather than the encoder, which
+// imports them, so the two never depend on each other at load time.
+
+import { Writer } from './writer';
+import { writeCompressed, compilePaths, LITTLE_ENDIAN, swapByteOrder, NumericTypedArray } from './utils';
+import { EncodeOptions, DEFAULT_ENCODE_OPTIONS, ExtensionApplication } from './extensions/types';
+
+/**
+ * Per-call encoding state threaded through write_value
+ */
+export interface EncodeContext {
+    options: EncodeOptions;
+    /** Compiled forceFloat32 paths (true = everywhere) */
+    float32Paths: string[][] | boolean;
+    /** Compiled complex paths (true = everywhere, false = never) */
+    complexPaths: string[][] | boolean;
+    /** Compiled intervals paths (true = everywhere, false = never) */
+    intervalPaths: string[][] | boolean;
+    /** Minimum length of arrays written as typed object arrays, at any depth (false = never) */
+    typedObjectArrays: number | false;
+    /** Extension applications recorded so far, when stats are wanted */
+    stats: ExtensionApplication[] | null;
+    /** Path of the value being written; only maintained when trackPath is set */
+    path: string[];
+    trackPath: boolean;
+    /** Copies holding the replacer's results, whose children are not replaced again (null without a replacer) */
+    replaced: WeakSet<object> | null;
+}
+
+/**
+ * Create the state for one encode; pass an array as stats to have every
+ * extension application recorded in it
+ */
+export function createEncodeContext(options: EncodeOptions = {}, stats: ExtensionApplication[] | null = null): EncodeContext {
+    const float32Paths = compilePaths(options.forceFloat32);
+    const complexPaths = compilePaths(options.complex);
+    const intervalPaths = compilePaths(options.intervals);
+    const typedObjectArrays = options.useTypedSchema ? 1
+        : options.autoDetect ? options.minArraySize ?? DEFAULT_ENCODE_OPTIONS.minArraySize!
+        : false;
+    return {
+        options,
+        float32Paths,
+        complexPaths,
+        intervalPaths,
+        typedObjectArrays,
+        stats,
+        path: [],
+        trackPath: stats !== null || [float32Paths, complexPaths, intervalPaths].some(paths => typeof paths !== 'boolean'),
+        replaced: options.replacer ? new WeakSet() : null,
+    };
+}
+
+/**
+ * Write the header, size and raw little-endian data of a numeric typed array
+ *
+ * @param numType - 0 = float, 1 = signed integer, 2 = unsigned integer
+ */
+export function write_typed_array(writer: Writer, numType: number, data: NumericTypedArray) {
+    const byteIndex = Math.log2(data.BYTES_PER_ELEMENT);
+    let header = 4 | (numType << 3) | (byteIndex << 5);
+    writer.append_uint8(header);
+    writeCompressed(writer, data.length);
+
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    if (LITTLE_ENDIAN) {
+        writer.append_bytes(bytes);
+    } else {
+        writer.append_bytes(swapByteOrder(bytes.slice(), data.BYTES_PER_ELEMENT));
+    }
+}
+
+// ============================================================================
+// Value Writer
+// ============================================================================
+
+type ValueWriter = (writer: Writer, value: any, ctx: EncodeContext) => void;
+
+// The encoder's write_value, bound when encoder.ts loads
+let valueWriter: ValueWriter | null = null;
+
+/**
+ * Install the writer behind write_value_internal and write_child_internal
+ * (called once by encoder.ts)
+ */
+export function bind_writer_internal(write: ValueWriter) {
+    valueWriter = write;
+}
+
+function write_value(writer: Writer, value: any, ctx: EncodeContext) {
+    if (!valueWriter) {
+        throw new Error('BEVE encoder not loaded: import writeBeve before encoding extension payloads');
+    }
+    valueWriter(writer, value, ctx);
+}
+
+/**
+ * Write a child value, recording its key in the path when needed; a null
+ * key writes the value at the current path (e.g. a class instance's state)
+ */
+export function write_child_internal(writer: Writer, value: any, ctx: EncodeContext, key: string | number | bigint | null) {
+    if (!ctx.trackPath || key === null) {
+        write_value(writer, value, ctx);
+        return;
+    }
+    ctx.path.push(String(key));
+    write_value(writer, value, ctx);
+    ctx.path.pop();
+}
+
+// Export write_value for extension use
+export function write_value_internal(writer: Writer, value: any, options: EncodeOptions = {}) {
+    write_value(writer, value, createEncodeContext(options));
+}
@@ -1,92 +1,199 @@
 // Reference: https://github.com/stephenberry/beve
 
 import { Writer } from './writer';
-import { writeCompressed } from './utils';
+import { writeCompressed, matchPath, NumericTypedArray } from './utils';
+import {
+    EncodeContext,
+    createEncodeContext,
+    write_child_internal,
+    write_typed_array,
+    bind_writer_internal,
+} from './encode-context';
+
+export { createEncodeContext, write_child_internal, write_typed_array, write_value_internal } from './encode-context';
+export type { EncodeContext } from './encode-context';
 
 // Writing BEVE
-export function writeBeve(data: any): Uint8Array {
+export function writeBeve(data: any, options: EncodeOptions = {}): Uint8Array {
+    const writer = new Writer();
+    const ctx = createEncodeContext(options);
+    write_value(writer, replace_root(data, ctx), ctx);
+    return writer.buffer.slice(0, writer.offset);
+}
+
+/**
+ * Write values separated by spec data delimiters (read with readBeveDelimited)
+ */
+export function writeBeveDelimited(values: any[], options: EncodeOptions = {}): Uint8Array {
     const writer = new Writer();
-    write_value(writer, data);
+    const ctx = createEncodeContext(options);
+    values.forEach((value, i) => {
+        if (i > 0) {
+            encodeDelimiter(writer);
+        }
+        write_value(writer, replace_root(value, ctx), ctx);
+    });
     return writer.buffer.slice(0, writer.offset);
 }
 
-function write_value(writer: Writer, value: any) {
+// The root is replaced first, under the key '' of a wrapper object
+function replace_root(value: any, ctx: EncodeContext): any {
+    const replacer = ctx.options.replacer;
+    return replacer ? replacer.call({ '': value }, '', value) : value;
+}
+
+function needs_replacing(value: any, ctx: EncodeContext): boolean {
+    return ctx.replaced !== null && !ctx.replaced.has(value);
+}
+
+/**
+ * Copy of an array, Map or object with each child passed through the
+ * replacer, the original being the holder. Object properties and Map
+ * entries the replacer returns undefined for are left out; array elements
+ * are kept (and written as null), as JSON.stringify does.
+ */
+function replace_children(value: any, ctx: EncodeContext): any {
+    const replacer = ctx.options.replacer!;
+    let replaced: any;
+    if (Array.isArray(value)) {
+        replaced = Array.from({ length: value.length }, (_, i) => replacer.call(value, String(i), value[i]));
+    } else if (value instanceof Map) {
+        replaced = new Map();
+        for (const [key, entry] of value) {
+            const result = replacer.call(value, String(key), entry);
+            if (result !== undefined) {
+                replaced.set(key, result);
+            }
+        }
+    } else {
+        replaced = {};
+        for (const key of Object.keys(value)) {
+            const result = replacer.call(value, key, value[key]);
+            if (result !== undefined) {
+                replaced[key] = result;
+            }
+        }
+    }
+    ctx.replaced!.add(replaced);
+    return replaced;
+}
+
+function is_plain_object(value: any): boolean {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+// Record that the bytes from start on were written through an extension
+function note(ctx: EncodeContext, extension: number, writer: Writer, start: number) {
+    ctx.stats?.push({
+        path: ctx.path.join('.'),
+        extension,
+        name: getExtension(extension)!.name,
+        bytes: writer.offset - start,
+    });
+}
+
+function write_value(writer: Writer, value: any, ctx: EncodeContext) {
     // Handle undefined as null
     if (value === undefined) {
         value = null;
     }
     
-    // Check for Uint8Array BEFORE Array.isArray (because Uint8Array is array-like but should be binary)
-    if (value instanceof Uint8Array) {
-        // binary data
-        let header: number = 6;
-        writer.append_uint8(header);
-        writeCompressed(writer, value.length);
-        writer.ensureCapacity(value.length);
-        writer.buffer.set(value, writer.offset);
-        writer.offset += value.length;
+    // Complex numbers and arrays are opt-in, since { re, im } is also a plain object
+    const start = writer.offset;
+    if (ctx.complexPaths !== false && write_complex_value(writer, value, ctx)) {
+        note(ctx, ExtensionID.COMPLEX_NUMBERS, writer, start);
+        return;
+    }
+    
+    // Intervals likewise, since { start, end } is also a plain object
+    if (ctx.intervalPaths !== false && isBeveInterval(value) &&
+        (ctx.intervalPaths === true || matchPath(ctx.intervalPaths, ctx.path))) {
+        encodeInterval(createInterval(value.start, value.end), writer);
+        note(ctx, ExtensionID.INTERVAL, writer, start);
+        return;
+    }
+    
+    // Registered extensions: binary data unless the binary option is false
+    // (before the TypedArray check, since a Uint8Array is array-like), Dates,
+    // RegExps, then application types
+    if (typeof value === 'object' && value !== null) {
+        const extension = match_extension_internal(value, ctx);
+        if (extension) {
+            writeExtensionHeader(writer, extension.id);
+            extension.encode!(value, writer, ctx);
+            note(ctx, extension.id, writer, start);
+            return;
+        }
+    }
+
+    // Every other TypedArray, DataView and ArrayBuffer maps to a typed array
+    if (ArrayBuffer.isView(value)) {
+        if (value instanceof DataView || value instanceof Uint8ClampedArray) {
+            write_typed_array(writer, 2, new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        } else {
+            write_typed_array(writer, typed_array_num_type(value), value as NumericTypedArray);
+        }
+        return;
+    }
+
+    if (value instanceof ArrayBuffer) {
+        write_typed_array(writer, 2, new Uint8Array(value));
         return;
     }
     
     if (Array.isArray(value)) {
-        // Check if it's a typed array (all elements same type)
-        if (value.length > 0) {
-            const firstType = typeof value[0];
-            const isTypedArray = value.every(item => typeof item === firstType);
-
-            if (isTypedArray && value.length > 1) {
-                if (firstType === 'number') {
-                    // Check if all numbers are integers
-                    const allIntegers = value.every((v: number) => Number.isInteger(v));
-                    
-                    if (allIntegers) {
-                        // Integer typed array - use untyped array for simplicity
-                        let header = 5;
-                        writer.append_uint8(header);
-                        writeCompressed(writer, value.length);
-                        for (let i = 0; i < value.length; i++) {
-                            write_value(writer, value[i]);
-                        }
-                    } else {
-                        // Float array - use untyped array
-                        let header = 5;
-                        writer.append_uint8(header);
-                        writeCompressed(writer, value.length);
-                        for (let i = 0; i < value.length; i++) {
-                            write_value(writer, value[i]);
-                        }
-                    }
-                } else if (firstType === 'string') {
-                    // String array - encode as untyped array
-                    let header = 5;
-                    writer.append_uint8(header);
-                    writeCompressed(writer, value.length);
-                    for (let i = 0; i < value.length; i++) {
-                        write_value(writer, value[i]);
-                    }
-                } else {
-                    // Other types (booleans, etc.) - encode as mixed array
-                    let header = 5;
-                    writer.append_uint8(header);
-                    writeCompressed(writer, value.length);
-                    for (let i = 0; i < value.length; i++) {
-                        write_value(writer, value[i]);
-                    }
+        if (needs_replacing(value, ctx)) {
+            value = replace_children(value, ctx);
+        }
+        if (ctx.replaced) {
+            // Rows and inner arrays too, so typed object and nested arrays
+            // are chosen from (and written with) the replaced values. Arrays
+            // already replaced are copies (or table columns) of our own.
+            for (let i = 0; i < value.length; i++) {
+                if ((Array.isArray(value[i]) || is_plain_object(value[i])) && needs_replacing(value[i], ctx)) {
+                    value[i] = replace_children(value[i], ctx);
                 }
+            }
+        }
+        if (ctx.typedObjectArrays !== false && shouldUseTypedArray(value, ctx.typedObjectArrays)) {
+            if (ctx.options.columnar) {
+                encodeTypedObjectColumns(value, writer, ctx);
+                note(ctx, ExtensionID.TYPED_OBJECT_COLUMNS, writer, start);
             } else {
-                // Empty array or mixed types
-                let header = 5;
-                writer.append_uint8(header);
-                writeCompressed(writer, value.length);
-                for (let i = 0; i < value.length; i++) {
-                    write_value(writer, value[i]);
-                }
+                encodeTypedObjectArray(value, writer, ctx);
+                note(ctx, ExtensionID.TYPED_ARRAY, writer, start);
+            }
+            return;
+        }
+        if (ctx.options.typedNestedArrays && isTypedNestedArray(value)) {
+            write_typed_nested_array(writer, value, ctx);
+            note(ctx, ExtensionID.TYPED_NESTED_ARRAY, writer, start);
+            return;
+        }
+
+        // Check if it's a typed array (all elements same type, no holes)
+        if (value.length > 1) {
+            const firstType = typeof value[0];
+
+            if (firstType === 'number' && is_homogeneous(value, firstType)) {
+                write_number_array(writer, value, ctx);
+            } else if (firstType === 'string' && is_homogeneous(value, firstType)) {
+                write_string_array(writer, value);
+            } else if (firstType === 'bigint' && is_homogeneous(value, firstType)) {
+                write_bigint_array(writer, value);
+            } else if (firstType === 'boolean' && is_homogeneous(value, firstType)) {
+                write_boolean_array(writer, value);
+            } else {
+                // Mixed types, objects or nested arrays
+                write_generic_array(writer, value, ctx);
             }
         } else {
-            // Empty array
-            let header = 5;
-            writer.append_uint8(header);
-            writeCompressed(writer, 0);
+            // Empty or single element array
+            write_generic_array(writer, value, ctx);
         }
     } else if (value === null) {
         let header: number = 0;
@@ -104,10 +211,16 @@ function write_value(writer: Writer, value: any) {
         // Check for special values
         if (!Number.isFinite(value)) {
             // Handle Infinity, -Infinity, NaN
-            let header = 1 | (0b00 << 3) | (3 << 5); // TYPE_NUMBER | FLOAT | 8 bytes
-            writer.append_uint8(header);
-            writer.append(value);
-        } else if (Number.isInteger(value)) {
+            if (use_float32(ctx, [value])) {
+                let header = 1 | (0b00 << 3) | (2 << 5); // TYPE_NUMBER | FLOAT | 4 bytes
+                writer.append_uint8(header);
+                writer.append_float32(value);
+            } else {
+                let header = 1 | (0b00 << 3) | (3 << 5); // TYPE_NUMBER | FLOAT | 8 bytes
+                writer.append_uint8(header);
+                writer.append(value);
+            }
+        } else if (Number.isInteger(value) && value >= INT_MIN[3] && value < UINT_MAX[3]) {
             // Integer - pick signed vs unsigned based on sign
             if (value < 0) {
                 // Negative = Signed integer (NUM_TYPE = 0b01)
@@ -148,12 +261,27 @@ function write_value(writer: Writer, value: any) {
                     writer.append_uint64(value);
                 }
             }
+        } else if (use_float32(ctx, [value])) {
+            let header = 1 | (0b00 << 3) | (2 << 5); // float32_t
+            writer.append_uint8(header);
+            writer.append_float32(value);
         } else {
             // Float value
             let header = 1 | (0b00 << 3) | (3 << 5); // float64_t
             writer.append_uint8(header);
             writer.append(value);
         }
+    } else if (typeof value === 'bigint') {
+        // BigInt always keeps its 64-bit width
+        if (value < 0n) {
+            let header = 1 | (0b01 << 3) | (3 << 5); // int64_t
+            writer.append_uint8(header);
+            writer.append_int64(value);
+        } else {
+            let header = 1 | (0b10 << 3) | (3 << 5); // uint64_t
+            writer.append_uint8(header);
+            writer.append_uint64(value);
+        }
     } else if (typeof value === 'string') {
         let header: number = 2;
         writer.append_uint8(header);
@@ -167,35 +295,405 @@ function write_value(writer: Writer, value: any) {
         writer.append_uint8(header);
         writeCompressed(writer, value.length);
         for (let i = 0; i < value.length; i++) {
-            write_value(writer, value[i]);
+            write_child_internal(writer, value[i], ctx, i);
         }
+    } else if (typeof value[BEVE_ENCODE] === 'function') {
+        // Unregistered classes implementing the protocol are written as their state
+        write_value(writer, value[BEVE_ENCODE](), ctx);
+    } else if (value instanceof Map) {
+        write_map(writer, value, ctx);
+    } else if (value instanceof Set) {
+        write_value(writer, Array.from(value), ctx);
     } else if (typeof value === 'object' && value !== null) {
+        if (needs_replacing(value, ctx)) {
+            value = replace_children(value, ctx);
+        }
+        if (ctx.options.integerKeys) {
+            const entries = integer_key_entries(value);
+            if (entries) {
+                write_integer_keyed_object(writer, entries, ctx);
+                return;
+            }
+        }
+
+        // Filter out undefined values
+        const keys = Object.keys(value).filter(key => value[key] !== undefined);
+        if (ctx.options.useFieldIndex && keys.length >= field_index_threshold(ctx)) {
+            write_indexed_object(writer, keys.map(key => [key, value[key]]), ctx);
+            return;
+        }
+
         let header: number = 3;
         let keyType = 0; // Assuming keys are always strings
         let isSigned = 0; // 0 for false, 1 for true
         header |= keyType << 3;
         header |= isSigned << 5;
         writer.append_uint8(header);
-        
-        // Filter out undefined values
-        const keys = Object.keys(value).filter(key => value[key] !== undefined);
         writeCompressed(writer, keys.length);
         
         for (const key of keys) {
-            writeCompressed(writer, key.length);
-            writer.append(key);
-            write_value(writer, value[key]);
+            // Keys are prefixed with their UTF-8 byte length, like strings
+            const bytes = new TextEncoder().encode(key);
+            writeCompressed(writer, bytes.length);
+            writer.append_bytes(bytes);
+            write_child_internal(writer, value[key], ctx, key);
         }
     } else {
         throw new Error('Unsupported data type');
     }
 }
 
-// Export write_value for extension use
-export function write_value_internal(writer: Writer, value: any) {
-    write_value(writer, value);
+/**
+ * Write value as a complex number or complex array (Extension 3) when it has
+ * that shape and options.complex selects its path; returns false otherwise
+ */
+function write_complex_value(writer: Writer, value: any, ctx: EncodeContext): boolean {
+    const paths = ctx.complexPaths;
+    const listed = paths !== true && matchPath(paths as string[][], ctx.path);
+    if (paths !== true && !listed) {
+        return false;
+    }
+
+    if (isBeveComplex(value)) {
+        encodeComplex(value, writer, use_float32(ctx, [value.re, value.im]) ? 'float32' : 'float64');
+        return true;
+    }
+    if (Array.isArray(value) && value.length > 0 && value.every(isBeveComplex)) {
+        const parts = value.flatMap((item: BeveComplex) => [item.re, item.im]);
+        encodeComplexArray(value, writer, use_float32(ctx, parts) ? 'float32' : 'float64');
+        return true;
+    }
+    // Interleaved [re, im, ...] data, only where a path asks for it
+    if (listed && ArrayBuffer.isView(value) && !(value instanceof DataView) && !(value instanceof Uint8ClampedArray)) {
+        encodeComplexArray(value as NumericTypedArray, writer);
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Write a Map as a string-keyed object or, when every key is an integer
+ * number or bigint, as an integer-keyed object
+ */
+function write_map(writer: Writer, value: Map<any, any>, ctx: EncodeContext) {
+    if (needs_replacing(value, ctx)) {
+        value = replace_children(value, ctx);
+    }
+    const entries = Array.from(value.entries()).filter(([, entryValue]) => entryValue !== undefined);
+
+    if (entries.every(([key]) => typeof key === 'string')) {
+        if (ctx.options.useFieldIndex && entries.length >= field_index_threshold(ctx)) {
+            write_indexed_object(writer, entries, ctx);
+            return;
+        }
+        let header: number = 3;
+        writer.append_uint8(header);
+        writeCompressed(writer, entries.length);
+        for (const [key, entryValue] of entries) {
+            const bytes = new TextEncoder().encode(key);
+            writeCompressed(writer, bytes.length);
+            writer.append_bytes(bytes);
+            write_child_internal(writer, entryValue, ctx, key);
+        }
+    } else if (entries.every(([key]) => typeof key === 'bigint' || Number.isInteger(key))) {
+        write_integer_keyed_object(writer, entries, ctx);
+    } else {
+        // Refuse rather than silently dropping entries
+        throw new Error('Unsupported Map key type: keys must be all strings or all integers');
+    }
+}
+
+function write_generic_array(writer: Writer, value: any[], ctx: EncodeContext) {
+    if (ctx.options.indexArrays && value.length >= field_index_threshold(ctx)) {
+        write_indexed_array(writer, value, ctx);
+        return;
+    }
+    let header = 5;
+    writer.append_uint8(header);
+    writeCompressed(writer, value.length);
+    for (let i = 0; i < value.length; i++) {
+        write_child_internal(writer, value[i], ctx, i);
+    }
 }
 
+/**
+ * Write an array of numeric arrays as a typed nested array (Extension 2),
+ * honouring forceFloat32 and floatPrecision for fractional elements
+ */
+function write_typed_nested_array(writer: Writer, value: any[], ctx: EncodeContext) {
+    const type = nestedArrayElementType(value);
+    const plain = value.every(Array.isArray);
+    encodeTypedNestedArray(value, writer, type === 'float64' && plain && use_float32(ctx, value.flat()) ? 'float32' : undefined);
+}
+
+// ============================================================================
+// Field Index (Extension 0)
+// ============================================================================
+
+function field_index_threshold(ctx: EncodeContext): number {
+    return ctx.options.fieldIndexThreshold ?? DEFAULT_ENCODE_OPTIONS.fieldIndexThreshold!;
+}
+
+/**
+ * Write a string-keyed object wrapped in a field index, recording where
+ * each key entry starts in the body
+ */
+function write_indexed_object(writer: Writer, entries: [string, any][], ctx: EncodeContext) {
+    const body = new Writer();
+    body.append_uint8(3);
+    writeCompressed(body, entries.length);
+
+    const offsets: number[] = [];
+    const hashes: number[] = [];
+    for (const [key, entryValue] of entries) {
+        const bytes = new TextEncoder().encode(key);
+        offsets.push(body.offset);
+        hashes.push(fieldHash(bytes));
+        writeCompressed(body, bytes.length);
+        body.append_bytes(bytes);
+        write_child_internal(body, entryValue, ctx, key);
+    }
+    const start = writer.offset;
+    encodeFieldIndex(writer, FieldIndexKind.OBJECT, body.buffer.subarray(0, body.offset), offsets, hashes);
+    note(ctx, ExtensionID.FIELD_INDEX, writer, start);
+}
+
+/**
+ * Write a generic array wrapped in an element offset table
+ */
+function write_indexed_array(writer: Writer, value: any[], ctx: EncodeContext) {
+    const body = new Writer();
+    body.append_uint8(5);
+    writeCompressed(body, value.length);
+
+    const offsets: number[] = new Array(value.length);
+    for (let i = 0; i < value.length; i++) {
+        offsets[i] = body.offset;
+        write_child_internal(body, value[i], ctx, i);
+    }
+    const start = writer.offset;
+    encodeFieldIndex(writer, FieldIndexKind.ARRAY, body.buffer.subarray(0, body.offset), offsets);
+    note(ctx, ExtensionID.FIELD_INDEX, writer, start);
+}
+
+// ============================================================================
+// Integer-Keyed Objects (header type 3, key type 1/2)
+// ============================================================================
+
+const INTEGER_KEY = /^(0|-?[1-9][0-9]*)$/;
+
+/**
+ * Write a raw integer of the given signedness and byte count index
+ */
+export function write_integer(writer: Writer, signed: boolean, byteIndex: number, value: number | bigint) {
+    switch (byteIndex) {
+        case 0:
+            if (signed) writer.append_int8(Number(value));
+            else writer.append_uint8(Number(value));
+            break;
+        case 1:
+            if (signed) writer.append_int16(Number(value));
+            else writer.append_uint16(Number(value));
+            break;
+        case 2:
+            if (signed) writer.append_int32(Number(value));
+            else writer.append_uint32(Number(value));
+            break;
+        default:
+            if (signed) writer.append_int64(BigInt(value));
+            else writer.append_uint64(BigInt(value));
+    }
+}
+
+/**
+ * Entries of a plain object whose keys are all canonical integers, or null
+ */
+function integer_key_entries(value: any): [number, any][] | null {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined);
+    if (keys.length === 0 || !keys.every(key => INTEGER_KEY.test(key) && Number.isSafeInteger(Number(key)))) {
+        return null;
+    }
+    return keys.map(key => [Number(key), value[key]]);
+}
+
+/**
+ * Write an object with integer keys, using the narrowest key type that holds
+ * every key (signed if any key is negative)
+ *
+ * Keys are stored raw (no size prefix) followed by the value.
+ */
+function write_integer_keyed_object(writer: Writer, entries: [number | bigint, any][], ctx: EncodeContext) {
+    let min = 0n;
+    let max = 0n;
+    for (const [key] of entries) {
+        if (typeof key !== 'bigint' && !Number.isInteger(key)) {
+            throw new Error(`Integer object key expected, got ${key}`);
+        }
+        const big = BigInt(key);
+        if (big < min) min = big;
+        if (big > max) max = big;
+    }
+
+    const signed = min < 0n;
+    const fits = (bits: number) => signed
+        ? BigInt.asIntN(bits, min) === min && BigInt.asIntN(bits, max) === max
+        : BigInt.asUintN(bits, max) === max;
+    if (!fits(64)) {
+        throw new Error('Integer object key does not fit in a 64-bit integer');
+    }
+    let byteIndex = 0;
+    while (!fits(8 << byteIndex)) {
+        byteIndex++;
+    }
+
+    let header = 3 | ((signed ? 1 : 2) << 3) | (byteIndex << 5);
+    writer.append_uint8(header);
+    writeCompressed(writer, entries.length);
+
+    for (const [key, entryValue] of entries) {
+        write_integer(writer, signed, byteIndex, key);
+        write_child_internal(writer, entryValue, ctx, key);
+    }
+}
+
+// ============================================================================
+// Typed Arrays (header type 4)
+// ============================================================================
+
+// Signed integer ranges for byte counts 1, 2, 4, 8
+const INT_MIN = [-0x80, -0x8000, -0x80000000, -(2 ** 63)];
+const INT_MAX = [0x7F, 0x7FFF, 0x7FFFFFFF, 2 ** 63 - 1];
+// Unsigned integer maxima for byte counts 1, 2, 4, 8
+const UINT_MAX = [0xFF, 0xFFFF, 0xFFFFFFFF, 2 ** 64 - 1];
+
+function is_homogeneous(value: any[], type: string): boolean {
+    for (let i = 0; i < value.length; i++) {
+        // `i in value` rejects holes in sparse arrays
+        if (typeof value[i] !== type || !(i in value)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * BEVE number type of a TypedArray: 0 = float, 1 = signed, 2 = unsigned
+ */
+function typed_array_num_type(value: ArrayBufferView): number {
+    // The tag also covers kinds newer than our lib target (e.g. Float16Array)
+    const tag = Object.prototype.toString.call(value).slice(8, -1);
+    if (tag.startsWith('Float')) return 0;
+    if (tag.startsWith('Int') || tag.startsWith('BigInt')) return 1;
+    return 2;
+}
+
+/**
+ * Write a number[] as a typed array, picking the narrowest integer type
+ * that holds every element, or float64 otherwise
+ */
+function write_number_array(writer: Writer, value: number[], ctx: EncodeContext) {
+    let min = 0;
+    let max = 0;
+    let allIntegers = true;
+    for (let i = 0; i < value.length; i++) {
+        const v = value[i];
+        if (!Number.isInteger(v)) {
+            allIntegers = false;
+            break;
+        }
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
+
+    if (allIntegers) {
+        if (min >= 0) {
+            if (max <= UINT_MAX[0]) return write_typed_array(writer, 2, Uint8Array.from(value));
+            if (max <= UINT_MAX[1]) return write_typed_array(writer, 2, Uint16Array.from(value));
+            if (max <= UINT_MAX[2]) return write_typed_array(writer, 2, Uint32Array.from(value));
+            if (max < UINT_MAX[3]) return write_typed_array(writer, 2, BigUint64Array.from(value, BigInt));
+        } else {
+            if (min >= INT_MIN[0] && max <= INT_MAX[0]) return write_typed_array(writer, 1, Int8Array.from(value));
+            if (min >= INT_MIN[1] && max <= INT_MAX[1]) return write_typed_array(writer, 1, Int16Array.from(value));
+            if (min >= INT_MIN[2] && max <= INT_MAX[2]) return write_typed_array(writer, 1, Int32Array.from(value));
+            if (min >= INT_MIN[3] && max < INT_MAX[3]) return write_typed_array(writer, 1, BigInt64Array.from(value, BigInt));
+        }
+    }
+
+    // Fractional, non-finite or out of 64-bit range
+    if (use_float32(ctx, value)) {
+        write_typed_array(writer, 0, Float32Array.from(value));
+    } else {
+        write_typed_array(writer, 0, Float64Array.from(value));
+    }
+}
+
+/**
+ * Whether floats should be written as float32: always when forced for the
+ * current path, and in 'lossless' mode when every value survives the
+ * round-trip through float32 exactly
+ */
+function use_float32(ctx: EncodeContext, values: number[]): boolean {
+    const paths = ctx.float32Paths;
+    if (paths === true || (paths !== false && matchPath(paths, ctx.path, true))) {
+        return true;
+    }
+    if (ctx.options.floatPrecision !== 'lossless') {
+        return false;
+    }
+    for (let i = 0; i < values.length; i++) {
+        const v = values[i];
+        // NaN and infinities exist in float32 too
+        if (Math.fround(v) !== v && !Number.isNaN(v)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function write_bigint_array(writer: Writer, value: bigint[]) {
+    // Non-negative arrays use uint64, anything else int64
+    const unsigned = value.every(v => v >= 0n);
+    for (const v of value) {
+        if ((unsigned ? BigInt.asUintN(64, v) : BigInt.asIntN(64, v)) !== v) {
+            throw new Error(`BigInt ${v} does not fit in a 64-bit integer`);
+        }
+    }
+    if (unsigned) {
+        write_typed_array(writer, 2, BigUint64Array.from(value));
+    } else {
+        write_typed_array(writer, 1, BigInt64Array.from(value));
+    }
+}
+
+function write_string_array(writer: Writer, value: string[]) {
+    let header = 4 | (3 << 3) | (1 << 5); // typed array | bool/string | string
+    writer.append_uint8(header);
+    writeCompressed(writer, value.length);
+    const encoder = new TextEncoder();
+    for (let i = 0; i < value.length; i++) {
+        const bytes = encoder.encode(value[i]);
+        writeCompressed(writer, bytes.length);
+        writer.append_bytes(bytes);
+    }
+}
+
+function write_boolean_array(writer: Writer, value: boolean[]) {
+    let header = 4 | (3 << 3) | (0 << 5); // typed array | bool/string | bool
+    writer.append_uint8(header);
+    writeCompressed(writer, value.length);
+    // Booleans are packed 8 per byte, most significant bit first
+    const packed = new Uint8Array((value.length + 7) >> 3);
+    for (let i = 0; i < value.length; i++) {
+        if (value[i]) {
+            packed[i >> 3] |= 0x80 >> (i & 7);
+        }
+    }
+    writer.append_bytes(packed);
+}
+
+// Extension encoders write nested values through write_child_internal
+bind_writer_internal(write_value);
+
 // ============================================================================
 // Extension-Enhanced Encoding
 // ============================================================================
@@ -204,7 +702,29 @@ import {
     EncodeOptions, 
     DEFAULT_ENCODE_OPTIONS, 
     shouldUseTypedArray,
-    encodeTypedObjectArray 
+    encodeTypedObjectArray,
+    encodeTypedObjectColumns,
+    encodeDelimiter,
+    writeExtensionHeader,
+    ExtensionID,
+    BeveComplex,
+    isBeveComplex,
+    encodeComplex,
+    encodeComplexArray,
+    isBeveInterval,
+    createInterval,
+    encodeInterval,
+    FieldIndexKind,
+    fieldHash,
+    encodeFieldIndex,
+    isTypedNestedArray,
+    nestedArrayElementType,
+    encodeTypedNestedArray,
+    getExtension,
+    match_extension_internal,
+    BEVE_ENCODE,
+    ExtensionApplication,
+    EncodeStats
 } from './extensions';
 
 /**
@@ -220,32 +740,46 @@ import {
  *   { name: "Bob", age: 25 }
  * ];
  * 
- * // Auto-detect: uses typed array if N >= 5
+ * // Auto-detect: uses typed array if N >= 5, at any depth
  * const bytes = encodeAuto(users);
+ * const wrapped = encodeAuto({ users, total: 2 });
  */
 export function encodeAuto(data: any, options: EncodeOptions = {}): Uint8Array {
+    return encodeAutoWithStats(data, options).bytes;
+}
+
+/**
+ * Encode like encodeAuto, also reporting where extensions were applied
+ * 
+ * @example
+ * const { bytes, stats } = encodeAutoWithStats({ users, orders });
+ * stats.counts;   // { 'typed-object-array': 2 }
+ * stats.applied;  // [{ path: 'users', extension: 1, name: 'typed-object-array', bytes: 412 }, ...]
+ */
+export function encodeAutoWithStats(data: any, options: EncodeOptions = {}): { bytes: Uint8Array; stats: EncodeStats } {
     const opts = { ...DEFAULT_ENCODE_OPTIONS, ...options };
     const writer = new Writer();
+    const applied: ExtensionApplication[] = [];
     
-    // Check if data should use typed array encoding
-    if (opts.autoDetect && Array.isArray(data) && shouldUseTypedArray(data, opts.minArraySize)) {
-        encodeTypedObjectArray(data, writer);
-    } else if (opts.useTypedSchema && Array.isArray(data) && shouldUseTypedArray(data, 1)) {
-        encodeTypedObjectArray(data, writer);
-    } else {
-        write_value(writer, data);
-    }
+    // Typed object arrays (and every other enabled extension) apply at any depth
+    const ctx = createEncodeContext(opts, applied);
+    write_value(writer, replace_root(data, ctx), ctx);
     
-    return writer.buffer.slice(0, writer.offset);
+    const counts: Record<string, number> = {};
+    for (const { name } of applied) {
+        counts[name] = (counts[name] ?? 0) + 1;
+    }
+    return { bytes: writer.buffer.slice(0, writer.offset), stats: { applied, counts } };
 }
 
 /**
- * Encode with typed schema (Extension 1)
+ * Encode with typed schema (Extension 1, or Extension 11 with columnar)
  * Forces use of typed object array encoding
  * 
  * @param data - Array of objects with same schema
- * @returns BEVE binary data with Extension 1
+ * @param options - Encoding options
+ * @returns BEVE binary data with Extension 1 or 11
  */
-export function encodeTyped(data: any[]): Uint8Array {
-    return encodeAuto(data, { useTypedSchema: true, minArraySize: 1 });
+export function encodeTyped(data: any[], options: EncodeOptions = {}): Uint8Array {
+    return encodeAuto(data, { ...options, useTypedSchema: true, minArraySize: 1 });
 }
\ No newline at end of file
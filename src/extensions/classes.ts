@@ -0,0 +1,176 @@
+/**
+ * BEVE Extension 12: Class Instances
+ *
+ * Instances of registered classes, tagged with the class ID so readBeve
+ * rebuilds them as the same class (Money, Vector3, ...) rather than as plain
+ * objects.
+ *
+ * An instance's state is whatever `[Symbol.for('beve.encode')]()` returns,
+ * or its own enumerable properties. A class rebuilds itself from that state
+ * with a static `fromBeve(state)`; without one, the state's properties are
+ * copied onto an object with the class's prototype (no constructor call).
+ *
+ * Instances of unregistered classes that implement `[Symbol.for('beve.encode')]`
+ * are written as the value it returns, untagged.
+ *
+ * Format:
+ * [0x0F 0x30]             // Extension 12 header (type 7 | layout 1 << 3, compressed ID 12)
+ * [class_id: varint]      // ID given to registerClass
+ * [state]                 // Any BEVE value
+ */
+
+import { Writer } from '../writer';
+import { writeCompressed, read_compressed } from '../utils';
+import { DecodeContext, read_value_internal } from '../decode-context';
+import { EncodeContext, createEncodeContext, write_child_internal } from '../encode-context';
+
+/** Instance method returning the state to encode */
+export const BEVE_ENCODE: unique symbol = Symbol.for('beve.encode');
+
+/**
+ * A class that can be registered: any constructor, optionally with a static
+ * fromBeve that rebuilds an instance from its decoded state
+ */
+export interface BeveClass<T = any> {
+    new (...args: any[]): T;
+    fromBeve?(state: any): T;
+}
+
+/** Highest class ID (the largest 4-byte compressed integer) */
+export const MAX_CLASS_ID = 0x3FFFFFFF;
+
+const classes = new Map<number, BeveClass>();
+const classIds = new Map<Function, number>();
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Register a class under an ID, so its instances are written tagged with it
+ * and read back as instances. Subclasses need their own registration.
+ *
+ * Throws when the ID or the class is already registered.
+ *
+ * @example
+ * class Money {
+ *     #cents: bigint;
+ *     constructor(cents: bigint, readonly currency: string) { this.#cents = cents; }
+ *     [Symbol.for('beve.encode')]() { return { cents: this.#cents, currency: this.currency }; }
+ *     static fromBeve({ cents, currency }: any) { return new Money(cents, currency); }
+ * }
+ * registerClass(Money, 1);
+ * readBeve(writeBeve(new Money(1999n, 'EUR'))) instanceof Money; // true
+ */
+export function registerClass(ctor: BeveClass, id: number): void {
+    if (typeof ctor !== 'function') {
+        throw new Error('registerClass needs a class');
+    }
+    if (!Number.isInteger(id) || id < 0 || id > MAX_CLASS_ID) {
+        throw new Error(`Invalid class ID: ${id} (expected an integer from 0 to ${MAX_CLASS_ID})`);
+    }
+
+    const byId = classes.get(id);
+    if (byId) {
+        throw new Error(`Class ID ${id} is already registered for '${byId.name}'`);
+    }
+    const existing = classIds.get(ctor);
+    if (existing !== undefined) {
+        throw new Error(`Class '${ctor.name}' is already registered with ID ${existing}`);
+    }
+
+    classes.set(id, ctor);
+    classIds.set(ctor, id);
+}
+
+/**
+ * Remove a class by constructor or ID; returns false when it is not registered
+ */
+export function unregisterClass(key: BeveClass | number): boolean {
+    const id = typeof key === 'number' ? key : classIds.get(key);
+    const ctor = id === undefined ? undefined : classes.get(id);
+    if (!ctor) {
+        return false;
+    }
+    classes.delete(id!);
+    classIds.delete(ctor);
+    return true;
+}
+
+/**
+ * ID a class is registered with, if any
+ */
+export function getClassId(ctor: BeveClass): number | undefined {
+    return classIds.get(ctor);
+}
+
+/**
+ * Check whether a value is an instance of a registered class (its own
+ * class, not a parent's)
+ */
+export function isRegisteredInstance(value: any): boolean {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(value);
+    return proto !== null && classIds.has(proto.constructor);
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Encode an instance of a registered class without the extension header
+ *
+ * @param value - Instance of a registered class
+ * @param writer - Output writer
+ * @param ctx - Encode context of the enclosing write; the state is written at the instance's path
+ */
+export function encodeClassInstancePayload(value: any, writer: Writer, ctx?: EncodeContext): void {
+    const id = classIds.get(Object.getPrototypeOf(value)?.constructor);
+    if (id === undefined) {
+        throw new Error(`Class '${value?.constructor?.name}' is not registered`);
+    }
+
+    writeCompressed(writer, id);
+    write_child_internal(writer, classState(value), ctx ?? createEncodeContext(), null);
+}
+
+/**
+ * State of an instance: the result of its [Symbol.for('beve.encode')]()
+ * method, or a copy of its own enumerable properties
+ */
+export function classState(value: any): any {
+    return typeof value[BEVE_ENCODE] === 'function' ? value[BEVE_ENCODE]() : { ...value };
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode an instance of a registered class (Extension 12)
+ *
+ * @param buffer - BEVE binary data
+ * @param cursor - Position just after the header (will be updated)
+ * @param ctx - Decode context of the enclosing read
+ * @returns The rebuilt instance
+ */
+export function decodeClassInstance(buffer: Uint8Array, cursor: { value: number }, ctx?: DecodeContext): any {
+    // Header already consumed by caller
+    const id = read_compressed(buffer, cursor);
+    const ctor = classes.get(id);
+    if (!ctor) {
+        throw new Error(`Unknown class ID: ${id} (register the class with registerClass)`);
+    }
+
+    const state = read_value_internal(buffer, cursor, ctx);
+    if (typeof ctor.fromBeve === 'function') {
+        return ctor.fromBeve(state);
+    }
+    if (state === null || typeof state !== 'object') {
+        throw new Error(`Cannot rebuild '${ctor.name}' from a non-object state without a static fromBeve`);
+    }
+    return Object.assign(Object.create(ctor.prototype), state);
+}
@@ -0,0 +1,201 @@
+/**
+ * BEVE Extension 3: Complex Numbers
+ *
+ * Single complex numbers and complex arrays (e.g. FFT output), written as
+ * the upstream spec's complex extension so glaze reads std::complex and
+ * std::vector<std::complex<T>> directly.
+ *
+ * Format:
+ * [0x1E]                  // Spec extension 3 header (0b110 | 3<<3)
+ * [complex header: byte]  // Bits 0-2: 0 = number, 1 = array
+ *                         // Bits 3-4: 0 = float, 1 = signed, 2 = unsigned
+ *                         // Bits 5-7: byte count index, as for numbers
+ * [size: varint]          // Arrays only: count of complex values
+ * [re, im, re, im, ...]   // Little-endian pairs
+ */
+
+import { Writer } from '../writer';
+import {
+    writeCompressed,
+    read_compressed,
+    config,
+    LITTLE_ENDIAN,
+    swapByteOrder,
+    TYPED_ARRAY_CONSTRUCTORS,
+    NumericTypedArray,
+    NumericTypedArrayConstructor,
+} from '../utils';
+import {
+    SpecExtension,
+    createSpecExtensionHeader,
+    BeveComplex,
+    NumericElementType,
+    NUMERIC_ELEMENT_TYPES,
+    numericElementTypeOf,
+    toNumericTypedArray,
+} from './types';
+import { DecodeContext, reserve_internal } from '../decode-context';
+
+/**
+ * Element type of the real and imaginary parts
+ */
+export type ComplexNumberType = NumericElementType;
+
+const COMPLEX_NUMBER = 0;
+const COMPLEX_ARRAY = 1;
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Encode a single complex number
+ *
+ * @example
+ * encodeComplex({ re: 1, im: -0.5 }, writer);            // complex<double>
+ * encodeComplex({ re: 3, im: 4 }, writer, 'int16');       // complex<int16_t>
+ */
+export function encodeComplex(value: BeveComplex, writer: Writer, type: ComplexNumberType = 'float64'): void {
+    write_complex(writer, COMPLEX_NUMBER, to_interleaved([value], type));
+}
+
+/**
+ * Encode a complex array from {re, im} objects or an interleaved TypedArray
+ * ([re0, im0, re1, im1, ...]). The element type defaults to the TypedArray's
+ * own type, or float64 for objects.
+ *
+ * @example
+ * // FFT output, no need to split into two parallel arrays
+ * encodeComplexArray(new Float32Array([1, 0, 0.5, -0.5]), writer);
+ */
+export function encodeComplexArray(
+    values: BeveComplex[] | NumericTypedArray,
+    writer: Writer,
+    type?: ComplexNumberType
+): void {
+    if (ArrayBuffer.isView(values)) {
+        if (values.length % 2 !== 0) {
+            throw new Error(`Interleaved complex array needs an even length, got ${values.length}`);
+        }
+        const data = type && numericElementTypeOf(values) !== type ? toNumericTypedArray(values, type) : values;
+        write_complex(writer, COMPLEX_ARRAY, data);
+    } else {
+        write_complex(writer, COMPLEX_ARRAY, to_interleaved(values, type ?? 'float64'));
+    }
+}
+
+/**
+ * Check for a {re, im} object with numeric parts and no other keys
+ */
+export function isBeveComplex(value: any): value is BeveComplex {
+    if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+        return false;
+    }
+    const keys = Object.keys(value);
+    return keys.length === 2 && typeof value.re === 'number' && typeof value.im === 'number';
+}
+
+function write_complex(writer: Writer, kind: number, data: NumericTypedArray): void {
+    const type = numericElementTypeOf(data);
+    const [numType, byteIndex] = NUMERIC_ELEMENT_TYPES[type];
+
+    writer.append_uint8(createSpecExtensionHeader(SpecExtension.COMPLEX));
+    writer.append_uint8(kind | (numType << 3) | (byteIndex << 5));
+    if (kind === COMPLEX_ARRAY) {
+        writeCompressed(writer, data.length / 2);
+    }
+
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    writer.append_bytes(LITTLE_ENDIAN ? bytes : swapByteOrder(bytes.slice(), data.BYTES_PER_ELEMENT));
+}
+
+function to_interleaved(values: BeveComplex[], type: ComplexNumberType): NumericTypedArray {
+    const parts: number[] = new Array(values.length * 2);
+    values.forEach((value, i) => {
+        if (!isBeveComplex(value)) {
+            throw new Error(`Invalid complex value at index ${i}: expected { re, im }`);
+        }
+        parts[2 * i] = value.re;
+        parts[2 * i + 1] = value.im;
+    });
+    return toNumericTypedArray(parts, type);
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode a complex number or complex array
+ *
+ * Single values decode to { re, im }. Arrays decode to { re, im }[] or, with
+ * the `complex: 'interleaved'` decode option, to an interleaved Float64Array.
+ * 64-bit integer parts are converted to numbers.
+ *
+ * @param buffer - BEVE binary data
+ * @param cursor - Position just after the header (will be updated)
+ * @param ctx - Decode context of the enclosing read
+ */
+export function decodeComplex(
+    buffer: Uint8Array,
+    cursor: { value: number },
+    ctx?: DecodeContext
+): BeveComplex | BeveComplex[] | Float64Array {
+    // Header already consumed by caller
+    if (cursor.value >= buffer.length) {
+        throw new Error(`Buffer overflow: complex header at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    const complexHeader = buffer[cursor.value++];
+    const kind = complexHeader & 0b111;
+    const numType = (complexHeader >> 3) & 0b11;
+    const byteIndex = complexHeader >> 5;
+
+    const Ctor = TYPED_ARRAY_CONSTRUCTORS[numType]?.[byteIndex];
+    if (!Ctor) {
+        throw new Error(`Unsupported complex element type: number type ${numType}, ${config[byteIndex]} bytes`);
+    }
+
+    if (kind === COMPLEX_NUMBER) {
+        const parts = read_parts(buffer, cursor, Ctor, 2);
+        return { re: parts[0], im: parts[1] };
+    }
+    if (kind !== COMPLEX_ARRAY) {
+        throw new Error(`Invalid complex header: ${complexHeader}`);
+    }
+
+    const N = read_compressed(buffer, cursor);
+    if (ctx) {
+        reserve_internal(buffer, cursor, ctx, N, 'maxArrayLength', 2 * Ctor.BYTES_PER_ELEMENT);
+    }
+    const parts = read_parts(buffer, cursor, Ctor, 2 * N);
+    if (ctx?.options.complex === 'interleaved') {
+        return parts;
+    }
+
+    const values: BeveComplex[] = new Array(N);
+    for (let i = 0; i < N; i++) {
+        values[i] = { re: parts[2 * i], im: parts[2 * i + 1] };
+    }
+    return values;
+}
+
+function read_parts(
+    buffer: Uint8Array,
+    cursor: { value: number },
+    Ctor: NumericTypedArrayConstructor,
+    count: number
+): Float64Array {
+    const byteLength = count * Ctor.BYTES_PER_ELEMENT;
+    if (cursor.value + byteLength > buffer.length) {
+        throw new Error(`Buffer overflow: complex data size ${count} at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+
+    const bytes = buffer.slice(cursor.value, cursor.value + byteLength);
+    cursor.value += byteLength;
+    if (!LITTLE_ENDIAN) {
+        swapByteOrder(bytes, Ctor.BYTES_PER_ELEMENT);
+    }
+
+    const data = new Ctor(bytes.buffer, 0, count);
+    return data instanceof Float64Array ? data : Float64Array.from(data as ArrayLike<any>, Number);
+}
@@ -3,24 +3,23 @@
  * 
  * High-precision time intervals with nanosecond accuracy.
  * 
- * Performance: 14 bytes (vs 20+ bytes for ISO 8601 duration)
+ * Performance: 15 bytes (vs 20+ bytes for ISO 8601 duration)
  * 
  * Format:
- * [0xAE]                  // Extension 5 header (0b110 | 5<<3 = 0x2E, then 0x80 | 0x2E = 0xAE)
+ * [0x0F 0x14]             // Extension 5 header (type 7 | layout 1 << 3, compressed ID 5)
  * [seconds: int64]        // Little-endian seconds
  * [nanos: uint32]         // Little-endian nanoseconds
  */
 
 import { Writer } from '../writer';
-import { ExtensionID, createExtensionHeader, BeveDuration } from './types';
+import { ExtensionID, writeExtensionHeader, BeveDuration } from './types';
 
 // ============================================================================
 // Encoder
 // ============================================================================
 
 export function encodeDuration(duration: BeveDuration, writer: Writer): void {
-    const header = createExtensionHeader(ExtensionID.DURATION);
-    writer.append_uint8(header);
+    writeExtensionHeader(writer, ExtensionID.DURATION);
     
     // Write seconds (int64)
     const seconds = typeof duration.seconds === 'bigint' ? Number(duration.seconds) : duration.seconds;
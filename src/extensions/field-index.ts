@@ -0,0 +1,352 @@
+/**
+ * BEVE Extension 0: Field Index
+ *
+ * Wraps a large object (or generic array) with a table of byte offsets so a
+ * reader can jump straight to one field without parsing the ones before it.
+ *
+ * Format:
+ * [0x0F 0x00]             // Extension 0 header (type 7 | layout 1 << 3, compressed ID 0)
+ * [kind: byte]            // 0 = object, 1 = array
+ * [count: varint]         // Entry count
+ * [hashes: uint32 × N]    // Objects only: FNV-1a hashes of the UTF-8 keys, ascending
+ * [offsets: uint32 × N]   // Objects: offset of each key entry, in hash order
+ *                         // Arrays: offset of each element, in element order
+ * [body_size: varint]     // Byte length of the body
+ * [body]                  // The plain object or generic array; offsets are relative to its start
+ */
+
+import { Writer } from '../writer';
+import { writeCompressed, read_compressed, readUInt32 } from '../utils';
+import { ExtensionID, writeExtensionHeader, parseExtensionHeader } from './types';
+import { DecodeContext, createDecodeContext, read_value_internal } from '../decode-context';
+import type { DecodeOptions } from '../decoder';
+
+export const enum FieldIndexKind {
+    OBJECT = 0,
+    ARRAY = 1,
+}
+
+/**
+ * Index of a wrapped value, as located in the buffer
+ */
+interface FieldIndex {
+    kind: FieldIndexKind;
+    count: number;
+    /** Position of the hash table (objects only) */
+    hashesAt: number;
+    /** Position of the offset table */
+    offsetsAt: number;
+    /** Position of the body */
+    bodyAt: number;
+    bodySize: number;
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * 32-bit FNV-1a hash of a key's UTF-8 bytes
+ */
+export function fieldHash(bytes: Uint8Array): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Write an already encoded object or generic array with its index
+ *
+ * @param writer - Destination
+ * @param kind - Object or array
+ * @param body - The encoded value
+ * @param offsets - Offset in body of each key entry (objects) or element (arrays)
+ * @param hashes - fieldHash of each key, parallel to offsets (objects only)
+ */
+export function encodeFieldIndex(
+    writer: Writer,
+    kind: FieldIndexKind,
+    body: Uint8Array,
+    offsets: number[],
+    hashes?: number[]
+): void {
+    writeExtensionHeader(writer, ExtensionID.FIELD_INDEX);
+    writer.append_uint8(kind);
+    writeCompressed(writer, offsets.length);
+
+    if (kind === FieldIndexKind.OBJECT) {
+        if (!hashes || hashes.length !== offsets.length) {
+            throw new Error('Object field index needs one hash per offset');
+        }
+        const order = offsets.map((_, i) => i).sort((a, b) => hashes[a] - hashes[b] || offsets[a] - offsets[b]);
+        for (const i of order) writer.append_uint32(hashes[i]);
+        for (const i of order) writer.append_uint32(offsets[i]);
+    } else {
+        for (const offset of offsets) writer.append_uint32(offset);
+    }
+
+    writeCompressed(writer, body.length);
+    writer.append_bytes(body);
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode an indexed value (Extension 0); the index is skipped and the body
+ * decoded as the plain object or array it wraps
+ *
+ * @param buffer - BEVE binary data
+ * @param cursor - Current position in buffer (will be updated)
+ * @param ctx - Decode context of the enclosing read
+ */
+export function decodeFieldIndex(buffer: Uint8Array, cursor: { value: number }, ctx?: DecodeContext): any {
+    // Header already consumed by caller
+    const index = read_index(buffer, cursor);
+
+    const bodyCursor = { value: index.bodyAt };
+    const value = read_value_internal(buffer, bodyCursor, ctx);
+    if (bodyCursor.value !== index.bodyAt + index.bodySize) {
+        throw new Error(`Invalid field index: body size ${index.bodySize} does not match its content`);
+    }
+
+    cursor.value = bodyCursor.value;
+    return value;
+}
+
+/**
+ * Decode only the value at a path
+ *
+ * Indexed objects and arrays (Extension 0) are entered through their index,
+ * so siblings are never touched; plain objects and generic arrays are
+ * scanned, decoding the entries before the one wanted. Returns undefined
+ * when the path does not exist.
+ *
+ * @example
+ * const bytes = writeBeve(config, { useFieldIndex: true });
+ * lookupField(bytes, 'database.pool.max');
+ * lookupField(bytes, ['services', 2, 'name']);
+ */
+export function lookupField(
+    buffer: Uint8Array,
+    path: string | Array<string | number>,
+    options: DecodeOptions = {}
+): any {
+    const ctx: DecodeContext = createDecodeContext(options);
+    const segments = typeof path === 'string' ? (path === '' ? [] : path.split('.')) : path;
+
+    const cursor = { value: 0 };
+    for (let i = 0; i < segments.length; i++) {
+        const found = seek(buffer, cursor, segments[i]);
+        if (found === false) {
+            return undefined;
+        }
+        if (found === null) {
+            // Not a container we can step through in place: decode it and walk the rest
+            return walk(read_value_internal(buffer, cursor, ctx), segments.slice(i));
+        }
+        if (ctx.trackPath) {
+            ctx.path.push(String(segments[i]));
+        }
+    }
+    return read_value_internal(buffer, cursor, ctx);
+}
+
+/**
+ * Check whether the value at an offset carries a field index
+ */
+export function hasFieldIndex(buffer: Uint8Array, offset = 0): boolean {
+    if (offset >= buffer.length) {
+        return false;
+    }
+    const header = parseExtensionHeader(buffer, offset);
+    return header !== null && header.kind === 'custom' && header.extId === ExtensionID.FIELD_INDEX;
+}
+
+/**
+ * Move cursor from a container to the value of one of its children.
+ * Returns false when the child does not exist, and null (cursor untouched)
+ * when the container cannot be stepped through without decoding it.
+ */
+function seek(buffer: Uint8Array, cursor: { value: number }, segment: string | number): boolean | null {
+    if (cursor.value >= buffer.length) {
+        throw new Error(`Buffer overflow: cursor at ${cursor.value}, buffer length ${buffer.length}`);
+    }
+
+    if (hasFieldIndex(buffer, cursor.value)) {
+        const at = { value: cursor.value + parseExtensionHeader(buffer, cursor.value)!.size };
+        const index = read_index(buffer, at);
+        const offset = index.kind === FieldIndexKind.OBJECT
+            ? find_key(buffer, index, String(segment))
+            : find_element(buffer, index, segment);
+        if (offset === null) {
+            return false;
+        }
+        cursor.value = index.bodyAt + offset;
+        if (index.kind === FieldIndexKind.OBJECT) {
+            skip_key(buffer, cursor);
+        }
+        return true;
+    }
+
+    const header = buffer[cursor.value];
+    const type = header & 0b111;
+
+    if (type === 3 && ((header >> 3) & 0b11) === 0) {
+        // String-keyed object: compare keys, skipping the values in between
+        const at = { value: cursor.value + 1 };
+        const N = read_compressed(buffer, at);
+        const wanted = new TextEncoder().encode(String(segment));
+        for (let i = 0; i < N; i++) {
+            const match = key_equals(buffer, at, wanted);
+            skip_key(buffer, at);
+            if (match) {
+                cursor.value = at.value;
+                return true;
+            }
+            skip_value(buffer, at);
+        }
+        return false;
+    }
+
+    if (type === 5) {
+        // Generic array: skip the elements before the one wanted
+        const at = { value: cursor.value + 1 };
+        const N = read_compressed(buffer, at);
+        const i = to_index(segment);
+        if (i === null || i >= N) {
+            return false;
+        }
+        for (let skipped = 0; skipped < i; skipped++) {
+            skip_value(buffer, at);
+        }
+        cursor.value = at.value;
+        return true;
+    }
+
+    return null;
+}
+
+// Step through an already decoded value
+function walk(value: any, segments: Array<string | number>): any {
+    for (const segment of segments) {
+        if (value instanceof Map) {
+            value = value.has(segment) ? value.get(segment) : value.get(to_index(segment) ?? segment);
+        } else if (value !== null && typeof value === 'object' && segment in value) {
+            value = value[segment];
+        } else {
+            return undefined;
+        }
+    }
+    return value;
+}
+
+function read_index(buffer: Uint8Array, cursor: { value: number }): FieldIndex {
+    if (cursor.value >= buffer.length) {
+        throw new Error(`Buffer overflow: field index kind at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    const kind = buffer[cursor.value++];
+    if (kind !== FieldIndexKind.OBJECT && kind !== FieldIndexKind.ARRAY) {
+        throw new Error(`Invalid field index kind: ${kind}`);
+    }
+
+    const count = read_compressed(buffer, cursor);
+    const hashesAt = cursor.value;
+    const offsetsAt = kind === FieldIndexKind.OBJECT ? hashesAt + 4 * count : hashesAt;
+    cursor.value = offsetsAt + 4 * count;
+    if (cursor.value > buffer.length) {
+        throw new Error(`Buffer overflow: field index of ${count} entries at cursor ${hashesAt}, buffer length ${buffer.length}`);
+    }
+
+    const bodySize = read_compressed(buffer, cursor);
+    const bodyAt = cursor.value;
+    if (bodyAt + bodySize > buffer.length) {
+        throw new Error(`Buffer overflow: field index body size ${bodySize} at cursor ${bodyAt}, buffer length ${buffer.length}`);
+    }
+    return { kind, count, hashesAt, offsetsAt, bodyAt, bodySize };
+}
+
+// Offset of a key entry in an indexed object, or null
+function find_key(buffer: Uint8Array, index: FieldIndex, key: string): number | null {
+    const wanted = new TextEncoder().encode(key);
+    const hash = fieldHash(wanted);
+
+    // Lower bound of the hash, then check every entry sharing it
+    let lo = 0;
+    let hi = index.count;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (readUInt32(buffer, { value: index.hashesAt + 4 * mid }) < hash) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    for (let i = lo; i < index.count && readUInt32(buffer, { value: index.hashesAt + 4 * i }) === hash; i++) {
+        const offset = readUInt32(buffer, { value: index.offsetsAt + 4 * i });
+        if (offset >= index.bodySize) {
+            throw new Error(`Invalid field index: offset ${offset} outside body of ${index.bodySize} bytes`);
+        }
+        if (key_equals(buffer, { value: index.bodyAt + offset }, wanted)) {
+            return offset;
+        }
+    }
+    return null;
+}
+
+// Offset of an element in an indexed array, or null
+function find_element(buffer: Uint8Array, index: FieldIndex, segment: string | number): number | null {
+    const i = to_index(segment);
+    if (i === null || i >= index.count) {
+        return null;
+    }
+    const offset = readUInt32(buffer, { value: index.offsetsAt + 4 * i });
+    if (offset >= index.bodySize) {
+        throw new Error(`Invalid field index: offset ${offset} outside body of ${index.bodySize} bytes`);
+    }
+    return offset;
+}
+
+function key_equals(buffer: Uint8Array, cursor: { value: number }, wanted: Uint8Array): boolean {
+    const at = { value: cursor.value };
+    const size = read_compressed(buffer, at);
+    if (size !== wanted.length || at.value + size > buffer.length) {
+        return false;
+    }
+    for (let i = 0; i < size; i++) {
+        if (buffer[at.value + i] !== wanted[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function skip_key(buffer: Uint8Array, cursor: { value: number }): void {
+    const size = read_compressed(buffer, cursor);
+    if (cursor.value + size > buffer.length) {
+        throw new Error(`Buffer overflow: object key size ${size} at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    cursor.value += size;
+}
+
+// Skip a sibling by decoding it with default options; indexed siblings are jumped over whole
+function skip_value(buffer: Uint8Array, cursor: { value: number }): void {
+    if (hasFieldIndex(buffer, cursor.value)) {
+        cursor.value += parseExtensionHeader(buffer, cursor.value)!.size;
+        const index = read_index(buffer, cursor);
+        cursor.value = index.bodyAt + index.bodySize;
+        return;
+    }
+    read_value_internal(buffer, cursor);
+}
+
+function to_index(segment: string | number): number | null {
+    if (typeof segment === 'number') {
+        return Number.isInteger(segment) && segment >= 0 ? segment : null;
+    }
+    return /^(0|[1-9][0-9]*)$/.test(segment) ? Number(segment) : null;
+}
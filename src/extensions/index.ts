@@ -10,19 +10,37 @@ export * from './types';
 
 // Extension implementations
 export * from './typed-array';
+export * from './typed-nested-array';
 export * from './timestamp';
 export * from './duration';
+export * from './interval';
 export * from './uuid';
+export * from './regexp';
+export * from './spec';
+export * from './complex';
+export * from './field-index';
+export * from './registry';
+export * from './classes';
 
 // Re-export key functions for convenience
 export {
     // Typed Arrays
     encodeTypedObjectArray,
     decodeTypedObjectArray,
+    encodeTypedObjectColumns,
+    decodeTypedObjectColumns,
+    decodeColumn,
     shouldUseTypedArray,
     calculateTypedArraySavings,
 } from './typed-array';
 
+export {
+    // Typed Nested Arrays
+    encodeTypedNestedArray,
+    decodeTypedNestedArray,
+    isTypedNestedArray,
+} from './typed-nested-array';
+
 export {
     // Timestamps
     encodeTimestamp,
@@ -42,6 +60,17 @@ export {
     durationToMilliseconds,
 } from './duration';
 
+export {
+    // Intervals
+    encodeInterval,
+    decodeInterval,
+    createInterval,
+    contains,
+    overlaps,
+    intersect,
+    durationOf,
+} from './interval';
+
 export {
     // UUIDs
     encodeUUID,
@@ -52,3 +81,52 @@ export {
     validateUUID,
     validateUUIDString,
 } from './uuid';
+
+export {
+    // RegExps
+    encodeRegExp,
+    decodeRegExp,
+    flagsToByte,
+    byteToFlags,
+} from './regexp';
+
+export {
+    // Spec extensions
+    encodeDelimiter,
+    encodeVariant,
+    decodeVariant,
+    encodeMatrix,
+    decodeMatrix,
+} from './spec';
+
+export {
+    // Complex numbers
+    encodeComplex,
+    encodeComplexArray,
+    decodeComplex,
+    isBeveComplex,
+} from './complex';
+
+export {
+    // Field index
+    encodeFieldIndex,
+    decodeFieldIndex,
+    lookupField,
+    hasFieldIndex,
+} from './field-index';
+
+export {
+    // Extension registry
+    registerExtension,
+    unregisterExtension,
+    getExtension,
+    listExtensions,
+} from './registry';
+
+export {
+    // Class instances
+    BEVE_ENCODE,
+    registerClass,
+    unregisterClass,
+    getClassId,
+} from './classes';
@@ -0,0 +1,171 @@
+/**
+ * BEVE Extension 6: Interval
+ *
+ * Half-open time intervals [start, end) built on the timestamp codec, with
+ * open-ended endpoints and a timezone offset per endpoint.
+ *
+ * Performance: 29-33 bytes for a bounded interval (vs 50+ bytes for two ISO 8601 strings)
+ *
+ * Format:
+ * [0x0F 0x18]             // Extension 6 header (type 7 | layout 1 << 3, compressed ID 6)
+ * [flags: byte]           // Bit 0: has start, bit 1: has end
+ * [start: timestamp]      // Extension 4 payload (no header), if present
+ * [end: timestamp]        // Extension 4 payload (no header), if present
+ */
+
+import { Writer } from '../writer';
+import { ExtensionID, writeExtensionHeader, BeveInterval, BeveTimestamp, BeveDuration, dateToTimestamp } from './types';
+import { encodeTimestampPayload, decodeTimestamp } from './timestamp';
+
+const HAS_START = 0b01;
+const HAS_END = 0b10;
+
+const NANOS_PER_SECOND = 1_000_000_000n;
+
+/** An interval endpoint or point in time, as accepted by the helpers */
+export type IntervalPoint = BeveTimestamp | Date;
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Encode a time interval (Extension 6)
+ *
+ * @example
+ * // Booking window in the venue's timezone (UTC-5)
+ * const start = { ...dateToTimestamp(new Date('2025-03-01T15:00:00Z')), timezoneOffset: -300 };
+ * encodeInterval({ start, end: null }, writer); // open-ended
+ */
+export function encodeInterval(interval: BeveInterval, writer: Writer): void {
+    const { start, end } = interval;
+    if (start && end && to_nanos(end) < to_nanos(start)) {
+        throw new Error('Invalid interval: end is before start');
+    }
+
+    writeExtensionHeader(writer, ExtensionID.INTERVAL);
+    writer.append_uint8((start ? HAS_START : 0) | (end ? HAS_END : 0));
+    if (start) {
+        encodeTimestampPayload(start, writer);
+    }
+    if (end) {
+        encodeTimestampPayload(end, writer);
+    }
+}
+
+/**
+ * Create an interval from Dates or timestamps (null = open-ended)
+ */
+export function createInterval(start: IntervalPoint | null, end: IntervalPoint | null): BeveInterval {
+    return { start: start && to_timestamp(start), end: end && to_timestamp(end) };
+}
+
+/**
+ * Check for a { start, end } object whose endpoints are Dates, timestamps or null
+ */
+export function isBeveInterval(value: any): boolean {
+    if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+        return false;
+    }
+    const keys = Object.keys(value);
+    return keys.length === 2 && 'start' in value && 'end' in value &&
+        is_endpoint(value.start) && is_endpoint(value.end);
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode a time interval (Extension 6); endpoints are always BeveTimestamps
+ * so nanoseconds and per-endpoint timezones survive
+ *
+ * @param buffer - BEVE binary data
+ * @param cursor - Current position in buffer (will be updated)
+ * @returns Decoded interval
+ */
+export function decodeInterval(buffer: Uint8Array, cursor: { value: number }): BeveInterval {
+    // Header already consumed by caller
+    if (cursor.value >= buffer.length) {
+        throw new Error(`Buffer overflow: interval flags at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    const flags = buffer[cursor.value++];
+
+    const start = flags & HAS_START ? decodeTimestamp(buffer, cursor) : null;
+    const end = flags & HAS_END ? decodeTimestamp(buffer, cursor) : null;
+    return { start, end };
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/**
+ * Check whether a point in time lies within [start, end)
+ */
+export function contains(interval: BeveInterval, point: IntervalPoint): boolean {
+    const t = to_nanos(point);
+    return (!interval.start || to_nanos(interval.start) <= t) &&
+           (!interval.end || t < to_nanos(interval.end));
+}
+
+/**
+ * Check whether two intervals share any point in time (touching ends do not)
+ */
+export function overlaps(a: BeveInterval, b: BeveInterval): boolean {
+    return before(a.start, b.end) && before(b.start, a.end);
+}
+
+/**
+ * Intersection of two intervals, or null when they do not overlap
+ * Endpoints keep their own timezone offsets.
+ */
+export function intersect(a: BeveInterval, b: BeveInterval): BeveInterval | null {
+    if (!overlaps(a, b)) {
+        return null;
+    }
+
+    const start = !a.start ? b.start : !b.start ? a.start : to_nanos(a.start) >= to_nanos(b.start) ? a.start : b.start;
+    const end = !a.end ? b.end : !b.end ? a.end : to_nanos(a.end) <= to_nanos(b.end) ? a.end : b.end;
+    return { start, end };
+}
+
+/**
+ * Length of a bounded interval
+ */
+export function durationOf(interval: BeveInterval): BeveDuration {
+    if (!interval.start || !interval.end) {
+        throw new Error('Cannot compute the duration of an open-ended interval');
+    }
+
+    const total = to_nanos(interval.end) - to_nanos(interval.start);
+    const seconds = total / NANOS_PER_SECOND;
+    return {
+        seconds: seconds <= BigInt(Number.MAX_SAFE_INTEGER) && seconds >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(seconds) : seconds,
+        nanoseconds: Number(total % NANOS_PER_SECOND),
+    };
+}
+
+function is_endpoint(value: any): boolean {
+    if (value === null || value instanceof Date) {
+        return true;
+    }
+    return typeof value === 'object' &&
+        (typeof value.seconds === 'number' || typeof value.seconds === 'bigint') &&
+        typeof value.nanoseconds === 'number';
+}
+
+function to_timestamp(point: IntervalPoint): BeveTimestamp {
+    return point instanceof Date ? dateToTimestamp(point) : point;
+}
+
+// Nanoseconds since the epoch; timezone offsets do not change the instant
+function to_nanos(point: IntervalPoint): bigint {
+    const ts = to_timestamp(point);
+    return BigInt(ts.seconds) * NANOS_PER_SECOND + BigInt(ts.nanoseconds);
+}
+
+// a < b, where a null start is -infinity and a null end is +infinity
+function before(start: BeveTimestamp | null, end: BeveTimestamp | null): boolean {
+    return !start || !end || to_nanos(start) < to_nanos(end);
+}
@@ -0,0 +1,160 @@
+/**
+ * BEVE Extension 9: RegExp
+ * 
+ * Regular expressions with their flags, e.g. user-defined filter rules in
+ * config payloads.
+ * 
+ * Format:
+ * [0x0F 0x24]             // Extension 9 header (type 7 | layout 1 << 3, compressed ID 9)
+ * [flags: byte]           // RegExpFlags bits
+ * [size: varint]          // Pattern byte length
+ * [pattern: UTF-8]        // RegExp source
+ */
+
+import { Writer } from '../writer';
+import { writeCompressed, read_compressed } from '../utils';
+import { ExtensionID, writeExtensionHeader, BeveRegExp, RegExpFlags } from './types';
+import { DecodeContext, createDecodeContext, reserve_internal } from '../decode-context';
+
+/** Flag characters and their bits, in RegExp.prototype.flags order */
+const FLAG_BITS: [string, RegExpFlags, string][] = [
+    ['d', RegExpFlags.HAS_INDICES, 'hasIndices'],
+    ['g', RegExpFlags.GLOBAL, 'global'],
+    ['i', RegExpFlags.CASE_INSENSITIVE, 'ignoreCase'],
+    ['m', RegExpFlags.MULTILINE, 'multiline'],
+    ['s', RegExpFlags.DOT_ALL, 'dotAll'],
+    ['u', RegExpFlags.UNICODE, 'unicode'],
+    ['v', RegExpFlags.UNICODE_SETS, 'unicodeSets'],
+    ['y', RegExpFlags.STICKY, 'sticky'],
+];
+
+const supportedFlags = new Map<string, boolean>();
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Encode a RegExp (Extension 9)
+ * 
+ * @example
+ * encodeRegExp(/^error: (?<code>\d+)/iu, writer);
+ */
+export function encodeRegExp(regexp: RegExp, writer: Writer): void {
+    encodeBeveRegExp({ pattern: regexp.source, flags: flagsToByte(regexp.flags) }, writer);
+}
+
+/**
+ * Encode a pattern and flags byte (Extension 9)
+ */
+export function encodeBeveRegExp(value: BeveRegExp, writer: Writer): void {
+    writeExtensionHeader(writer, ExtensionID.REGEXP);
+    encodeRegExpPayload(value, writer);
+}
+
+/**
+ * Encode a pattern and flags byte without the extension header (read back
+ * with decodeBeveRegExp)
+ */
+export function encodeRegExpPayload(value: BeveRegExp, writer: Writer): void {
+    writer.append_uint8(value.flags);
+    
+    const bytes = new TextEncoder().encode(value.pattern);
+    writeCompressed(writer, bytes.length);
+    writer.append_bytes(bytes);
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode a pattern and flags byte (Extension 9) without compiling it
+ * 
+ * @param buffer - BEVE binary data
+ * @param cursor - Current position in buffer (will be updated)
+ * @param ctx - Decode context of the enclosing read (the pattern counts toward its string limits)
+ */
+export function decodeBeveRegExp(buffer: Uint8Array, cursor: { value: number }, ctx?: DecodeContext): BeveRegExp {
+    // Header already consumed by caller
+    ctx ??= createDecodeContext();
+    if (cursor.value >= buffer.length) {
+        throw new Error(`Buffer overflow: RegExp flags at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    const flags = buffer[cursor.value++];
+    
+    const size = read_compressed(buffer, cursor);
+    reserve_internal(buffer, cursor, ctx, size, 'maxStringBytes', 1);
+    const pattern = new TextDecoder().decode(buffer.subarray(cursor.value, cursor.value + size));
+    cursor.value += size;
+    
+    return { pattern, flags };
+}
+
+/**
+ * Decode a RegExp (Extension 9)
+ * Throws when the runtime does not support one of its flags.
+ * 
+ * @param buffer - BEVE binary data
+ * @param cursor - Current position in buffer (will be updated)
+ * @param ctx - Decode context of the enclosing read
+ */
+export function decodeRegExp(buffer: Uint8Array, cursor: { value: number }, ctx?: DecodeContext): RegExp {
+    const { pattern, flags } = decodeBeveRegExp(buffer, cursor, ctx);
+    const flagString = byteToFlags(flags);
+    
+    for (const [flag, , name] of FLAG_BITS) {
+        if (flagString.includes(flag) && !isRegExpFlagSupported(flag)) {
+            throw new Error(`Cannot decode RegExp /${pattern}/${flagString}: flag '${flag}' (${name}) is not supported by this runtime`);
+        }
+    }
+    
+    try {
+        return new RegExp(pattern, flagString);
+    } catch (error) {
+        throw new Error(`Cannot decode RegExp /${pattern}/${flagString}: ${(error as Error).message}`);
+    }
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/**
+ * Convert a flags string ("gi") to the flags byte
+ */
+export function flagsToByte(flags: string): number {
+    let byte = 0;
+    for (const flag of flags) {
+        const entry = FLAG_BITS.find(([char]) => char === flag);
+        if (!entry) {
+            throw new Error(`Unknown RegExp flag: '${flag}'`);
+        }
+        byte |= entry[1];
+    }
+    return byte;
+}
+
+/**
+ * Convert a flags byte to a flags string
+ */
+export function byteToFlags(byte: number): string {
+    return FLAG_BITS.filter(([, bit]) => byte & bit).map(([flag]) => flag).join('');
+}
+
+/**
+ * Check whether the current runtime accepts a RegExp flag
+ */
+export function isRegExpFlagSupported(flag: string): boolean {
+    let supported = supportedFlags.get(flag);
+    if (supported === undefined) {
+        try {
+            new RegExp('', flag);
+            supported = true;
+        } catch {
+            supported = false;
+        }
+        supportedFlags.set(flag, supported);
+    }
+    return supported;
+}
@@ -0,0 +1,280 @@
+/**
+ * BEVE Extension Registry
+ *
+ * One table of custom extensions, keyed by ID. The decoder reads every
+ * custom extension through it, and the encoder writes each object value an
+ * extension's test accepts through that extension, so application types
+ * (money, geo points, sensor readings) are handled exactly like the
+ * built-in extensions, which are registered here too.
+ *
+ * IDs below 64 are reserved for this library; applications use IDs from
+ * FIRST_USER_EXTENSION_ID up to MAX_EXTENSION_ID.
+ *
+ * Format:
+ * [0x0F]                  // Custom extension header (type 7 | layout 1 << 3)
+ * [id: varint]            // Extension ID (1 byte below 64, 2 bytes below 16384)
+ * [payload]               // Written by the extension's encode, read by its decode
+ */
+
+import { Writer } from '../writer';
+import { writeCompressed, read_compressed } from '../utils';
+import { ExtensionID, EXTENSION_NAMES, dateToTimestamp, timestampToDate } from './types';
+import { decodeFieldIndex } from './field-index';
+import { decodeTypedObjectArray, decodeTypedObjectColumns } from './typed-array';
+import { decodeTypedNestedArray } from './typed-nested-array';
+import { decodeComplex } from './complex';
+import { encodeTimestampPayload, decodeTimestamp, formatTimestamp } from './timestamp';
+import { decodeDuration } from './duration';
+import { decodeInterval } from './interval';
+import { decodeUUID } from './uuid';
+import { encodeRegExpPayload, decodeRegExp, flagsToByte } from './regexp';
+import { isRegisteredInstance, encodeClassInstancePayload, decodeClassInstance } from './classes';
+import { DecodeContext, reserve_internal } from '../decode-context';
+import type { EncodeContext } from '../encode-context';
+
+/** Lowest ID available to application extensions */
+export const FIRST_USER_EXTENSION_ID = 64;
+
+/** Highest extension ID (the largest 4-byte compressed integer) */
+export const MAX_EXTENSION_ID = 0x3FFFFFFF;
+
+/**
+ * A custom extension: its ID and name, and how its payload is read and
+ * written. The encoder writes the header before calling encode; decode is
+ * called with the cursor just past the header.
+ */
+export interface BeveExtension<T = any> {
+    /** Extension ID, unique across the registry */
+    id: number;
+    /** Extension name, unique across the registry (reported by encodeAutoWithStats) */
+    name: string;
+    /**
+     * Whether an object value should be written through this extension;
+     * tested in registration order, after the built-ins. Omit for
+     * extensions that are only read.
+     */
+    test?(value: any, ctx: EncodeContext): boolean;
+    /** Write the payload of a value test accepted (use write_child_internal for nested BEVE values) */
+    encode?(value: T, writer: Writer, ctx: EncodeContext): void;
+    /** Read a payload written by encode (use read_child_internal for nested BEVE values) */
+    decode(buffer: Uint8Array, cursor: { value: number }, ctx: DecodeContext): T;
+}
+
+const extensions = new Map<number, BeveExtension>();
+const names = new Map<string, BeveExtension>();
+/** Extensions with a test, in registration order */
+const encoders: BeveExtension[] = [];
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Register an application extension
+ *
+ * Throws when the ID is reserved or out of range, or when the ID or name is
+ * already registered.
+ *
+ * @example
+ * registerExtension<GeoPoint>({
+ *     id: 64,
+ *     name: 'geo-point',
+ *     test: value => value instanceof GeoPoint,
+ *     encode: (point, writer) => {
+ *         writer.append_float64(point.lat);
+ *         writer.append_float64(point.lon);
+ *     },
+ *     decode: (buffer, cursor) => new GeoPoint(readDouble(buffer, cursor), readDouble(buffer, cursor)),
+ * });
+ */
+export function registerExtension<T>(extension: BeveExtension<T>): void {
+    if (Number.isInteger(extension.id) && extension.id >= 0 && extension.id < FIRST_USER_EXTENSION_ID) {
+        throw new Error(`Extension IDs below ${FIRST_USER_EXTENSION_ID} are reserved for built-in extensions, got ${extension.id}`);
+    }
+    add_extension(extension);
+}
+
+/**
+ * Remove an application extension; returns false when the ID is not registered
+ */
+export function unregisterExtension(id: number): boolean {
+    const extension = extensions.get(id);
+    if (!extension) {
+        return false;
+    }
+    if (id < FIRST_USER_EXTENSION_ID) {
+        throw new Error(`Cannot unregister built-in extension '${extension.name}'`);
+    }
+
+    extensions.delete(id);
+    names.delete(extension.name);
+    const index = encoders.indexOf(extension);
+    if (index >= 0) {
+        encoders.splice(index, 1);
+    }
+    return true;
+}
+
+/**
+ * Look up a registered extension by ID or name
+ */
+export function getExtension(key: number | string): BeveExtension | undefined {
+    return typeof key === 'number' ? extensions.get(key) : names.get(key);
+}
+
+/**
+ * Every registered extension, built-ins first
+ */
+export function listExtensions(): BeveExtension[] {
+    return Array.from(extensions.values());
+}
+
+/**
+ * First registered extension whose test accepts the value, if any
+ */
+export function match_extension_internal(value: any, ctx: EncodeContext): BeveExtension | undefined {
+    for (let i = 0; i < encoders.length; i++) {
+        if (encoders[i].test!(value, ctx)) {
+            return encoders[i];
+        }
+    }
+    return undefined;
+}
+
+function add_extension(extension: BeveExtension): void {
+    const { id, name } = extension;
+    if (!Number.isInteger(id) || id < 0 || id > MAX_EXTENSION_ID) {
+        throw new Error(`Invalid extension ID: ${id} (expected an integer from 0 to ${MAX_EXTENSION_ID})`);
+    }
+    if (typeof name !== 'string' || name.length === 0) {
+        throw new Error(`Extension ${id} needs a name`);
+    }
+    if (typeof extension.decode !== 'function') {
+        throw new Error(`Extension '${name}' needs a decode function`);
+    }
+    if (!extension.test !== !extension.encode) {
+        throw new Error(`Extension '${name}' needs both test and encode, or neither`);
+    }
+
+    const byId = extensions.get(id);
+    if (byId) {
+        throw new Error(`Extension ID ${id} is already registered as '${byId.name}'`);
+    }
+    const byName = names.get(name);
+    if (byName) {
+        throw new Error(`Extension name '${name}' is already registered with ID ${byName.id}`);
+    }
+
+    extensions.set(id, extension);
+    names.set(name, extension);
+    if (extension.test) {
+        encoders.push(extension);
+    }
+}
+
+// ============================================================================
+// Built-in Extensions
+// ============================================================================
+
+// Typed arrays, complex numbers, intervals and field indexes are written by
+// the encoder per its options, and durations and UUIDs have no JavaScript
+// type of their own, so only their decoders live here
+const BUILTIN_EXTENSIONS: BeveExtension[] = [
+    {
+        id: ExtensionID.FIELD_INDEX,
+        name: EXTENSION_NAMES[ExtensionID.FIELD_INDEX],
+        decode: decodeFieldIndex,
+    },
+    {
+        id: ExtensionID.TYPED_ARRAY,
+        name: EXTENSION_NAMES[ExtensionID.TYPED_ARRAY],
+        decode: decodeTypedObjectArray,
+    },
+    {
+        id: ExtensionID.TYPED_NESTED_ARRAY,
+        name: EXTENSION_NAMES[ExtensionID.TYPED_NESTED_ARRAY],
+        decode: decodeTypedNestedArray,
+    },
+    {
+        // Same payload as the spec extension, which is what we write
+        id: ExtensionID.COMPLEX_NUMBERS,
+        name: EXTENSION_NAMES[ExtensionID.COMPLEX_NUMBERS],
+        decode: decodeComplex,
+    },
+    {
+        id: ExtensionID.TIMESTAMP,
+        name: EXTENSION_NAMES[ExtensionID.TIMESTAMP],
+        test: value => value instanceof Date,
+        encode: (date: Date, writer) => {
+            if (isNaN(date.getTime())) {
+                throw new Error('Cannot encode invalid Date as timestamp');
+            }
+            encodeTimestampPayload(dateToTimestamp(date), writer);
+        },
+        decode: (buffer, cursor, ctx) => {
+            const ts = decodeTimestamp(buffer, cursor);
+            switch (ctx.options.dates) {
+                case 'timestamp':
+                    return ts;
+                case 'iso':
+                    return formatTimestamp(ts);
+                default:
+                    return timestampToDate(ts);
+            }
+        },
+    },
+    {
+        id: ExtensionID.DURATION,
+        name: EXTENSION_NAMES[ExtensionID.DURATION],
+        decode: decodeDuration,
+    },
+    {
+        id: ExtensionID.INTERVAL,
+        name: EXTENSION_NAMES[ExtensionID.INTERVAL],
+        decode: decodeInterval,
+    },
+    {
+        id: ExtensionID.UUID,
+        name: EXTENSION_NAMES[ExtensionID.UUID],
+        decode: decodeUUID,
+    },
+    {
+        id: ExtensionID.REGEXP,
+        name: EXTENSION_NAMES[ExtensionID.REGEXP],
+        test: value => value instanceof RegExp,
+        encode: (regexp: RegExp, writer) => {
+            encodeRegExpPayload({ pattern: regexp.source, flags: flagsToByte(regexp.flags) }, writer);
+        },
+        decode: decodeRegExp,
+    },
+    {
+        id: ExtensionID.BINARY,
+        name: EXTENSION_NAMES[ExtensionID.BINARY],
+        test: (value, ctx) => ctx.options.binary !== false && value instanceof Uint8Array,
+        encode: (bytes: Uint8Array, writer) => {
+            writeCompressed(writer, bytes.length);
+            writer.append_bytes(bytes);
+        },
+        decode: (buffer, cursor, ctx) => {
+            const size = read_compressed(buffer, cursor);
+            reserve_internal(buffer, cursor, ctx, size, 'maxBinaryBytes', 1);
+            const data = buffer.subarray(cursor.value, cursor.value + size);
+            cursor.value += size;
+            return data;
+        },
+    },
+    {
+        id: ExtensionID.TYPED_OBJECT_COLUMNS,
+        name: EXTENSION_NAMES[ExtensionID.TYPED_OBJECT_COLUMNS],
+        decode: decodeTypedObjectColumns,
+    },
+    {
+        id: ExtensionID.CLASS_INSTANCE,
+        name: EXTENSION_NAMES[ExtensionID.CLASS_INSTANCE],
+        test: isRegisteredInstance,
+        encode: encodeClassInstancePayload,
+        decode: decodeClassInstance,
+    },
+];
+
+BUILTIN_EXTENSIONS.forEach(add_extension);
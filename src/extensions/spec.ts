@@ -0,0 +1,122 @@
+/**
+ * BEVE Spec Extensions (type 6)
+ * 
+ * Extensions defined by the upstream BEVE specification, as written by glaze.
+ * The subtype sits in bits 3-7 of the header.
+ * 
+ * Format:
+ * [0x06]                  // Data delimiter (between values in a stream)
+ * 
+ * [0x0E]                  // Type tag (variant)
+ * [index: varint]         // Alternative index
+ * [value]                 // Any BEVE value
+ * 
+ * [0x16]                  // Matrix
+ * [layout: byte]          // Bit 0: 0 = layout_right (row major), 1 = layout_left (column major)
+ * [extents]               // Typed array of unsigned integers
+ * [value]                 // Typed array of elements
+ */
+
+import { Writer } from '../writer';
+import { writeCompressed, read_compressed } from '../utils';
+import { SpecExtension, createSpecExtensionHeader, BeveVariant, BeveMatrix } from './types';
+import { DecodeContext, createDecodeContext, read_value_internal } from '../decode-context';
+import { write_value_internal } from '../encode-context';
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Write a data delimiter (separates values in a delimited stream)
+ */
+export function encodeDelimiter(writer: Writer): void {
+    writer.append_uint8(createSpecExtensionHeader(SpecExtension.DELIMITER));
+}
+
+/**
+ * Encode a type-tagged value
+ * 
+ * @example
+ * // glaze std::variant<int32_t, std::string> holding a string
+ * encodeVariant({ index: 1, value: 'text' }, writer);
+ */
+export function encodeVariant(variant: BeveVariant, writer: Writer): void {
+    if (!Number.isInteger(variant.index) || variant.index < 0) {
+        throw new Error(`Invalid variant index: ${variant.index}`);
+    }
+    
+    writer.append_uint8(createSpecExtensionHeader(SpecExtension.VARIANT));
+    writeCompressed(writer, variant.index);
+    
+    write_value_internal(writer, variant.value);
+}
+
+/**
+ * Encode a matrix; plain number arrays are written as float64
+ * 
+ * @example
+ * encodeMatrix({ layout: 'layout_right', extents: [2, 2], value: new Float32Array([1, 2, 3, 4]) }, writer);
+ */
+export function encodeMatrix(matrix: BeveMatrix, writer: Writer): void {
+    const count = matrix.extents.reduce((product, extent) => product * extent, 1);
+    if (count !== matrix.value.length) {
+        throw new Error(`Matrix extents [${matrix.extents.join(', ')}] do not match ${matrix.value.length} elements`);
+    }
+    
+    writer.append_uint8(createSpecExtensionHeader(SpecExtension.MATRIX));
+    writer.append_uint8(matrix.layout === 'layout_left' ? 1 : 0);
+    
+    write_value_internal(writer, Uint32Array.from(matrix.extents));
+    write_value_internal(writer, ArrayBuffer.isView(matrix.value) ? matrix.value : Float64Array.from(matrix.value));
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode a type-tagged value
+ * 
+ * @param buffer - BEVE binary data
+ * @param cursor - Position just after the header (will be updated)
+ * @param ctx - Decode context of the enclosing read
+ */
+export function decodeVariant(buffer: Uint8Array, cursor: { value: number }, ctx?: DecodeContext): BeveVariant {
+    // Header already consumed by caller
+    const index = read_compressed(buffer, cursor);
+    return { index, value: read_value_internal(buffer, cursor, ctx) };
+}
+
+/**
+ * Decode a matrix; the element array follows the typedArrays decode option
+ * (asSet does not apply to the extents or elements, whose duplicates matter)
+ * 
+ * @param buffer - BEVE binary data
+ * @param cursor - Position just after the header (will be updated)
+ * @param ctx - Decode context of the enclosing read
+ */
+export function decodeMatrix(buffer: Uint8Array, cursor: { value: number }, ctx?: DecodeContext): BeveMatrix {
+    // Header already consumed by caller
+    if (cursor.value >= buffer.length) {
+        throw new Error(`Buffer overflow: matrix layout at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    const layout = (buffer[cursor.value++] & 1) ? 'layout_left' : 'layout_right';
+    
+    ctx ??= createDecodeContext();
+    const setPaths = ctx.setPaths;
+    ctx.setPaths = false;
+    let extents: any;
+    let value: any;
+    try {
+        extents = read_value_internal(buffer, cursor, ctx);
+        if (!extents || typeof extents.length !== 'number') {
+            throw new Error('Invalid matrix: extents must be an array');
+        }
+        value = read_value_internal(buffer, cursor, ctx);
+    } finally {
+        ctx.setPaths = setPaths;
+    }
+    
+    return { layout, extents: Array.from(extents as ArrayLike<number | bigint>, Number), value };
+}
@@ -3,10 +3,10 @@
  * 
  * Nanosecond-precision timestamps with optional timezone support.
  * 
- * Performance: 14-16 bytes (vs 24+ bytes for ISO 8601 string)
+ * Performance: 15-17 bytes (vs 24+ bytes for ISO 8601 string)
  * 
  * Format:
- * [0xA6]                  // Extension 4 header (0b110 | 4<<3 = 0x26, then 0x80 | 0x26 = 0xA6)
+ * [0x0F 0x10]             // Extension 4 header (type 7 | layout 1 << 3, compressed ID 4)
  * [precision: byte]       // Bits 1-3=precision, bit 0=has_tz
  * [seconds: int64]        // Little-endian epoch seconds
  * [nanos: uint32]         // Little-endian nanoseconds
@@ -14,7 +14,8 @@
  */
 
 import { Writer } from '../writer';
-import { ExtensionID, createExtensionHeader, BeveTimestamp, dateToTimestamp, timestampToDate } from './types';
+import { readBigInt64, readUInt32 } from '../utils';
+import { ExtensionID, writeExtensionHeader, BeveTimestamp, dateToTimestamp, timestampToDate } from './types';
 
 // ============================================================================
 // Encoder
@@ -32,20 +33,22 @@ import { ExtensionID, createExtensionHeader, BeveTimestamp, dateToTimestamp, tim
  */
 export function encodeTimestamp(ts: BeveTimestamp, writer: Writer): void {
     // Write extension header
-    const header = createExtensionHeader(ExtensionID.TIMESTAMP);
-    writer.append_uint8(header);
-    
+    writeExtensionHeader(writer, ExtensionID.TIMESTAMP);
+    encodeTimestampPayload(ts, writer);
+}
+
+/**
+ * Encode a timestamp without the extension header, for extensions that
+ * embed timestamps (read back with decodeTimestamp)
+ */
+export function encodeTimestampPayload(ts: BeveTimestamp, writer: Writer): void {
     // Precision byte
     const hasTz = ts.timezoneOffset !== undefined && ts.timezoneOffset !== null;
     const precision = 0b001 << 1 | (hasTz ? 1 : 0); // Nanosecond precision (001), tz flag
     writer.append_uint8(precision);
     
     // Write seconds (int64, little-endian)
-    const seconds = typeof ts.seconds === 'bigint' ? Number(ts.seconds) : ts.seconds;
-    const secondsLow = seconds & 0xFFFFFFFF;
-    const secondsHigh = Math.floor(seconds / 0x100000000);
-    writer.append_uint32(secondsLow);
-    writer.append_uint32(secondsHigh);
+    writer.append_int64(ts.seconds);
     
     // Write nanoseconds (uint32, little-endian)
     writer.append_uint32(ts.nanoseconds);
@@ -63,6 +66,9 @@ export function encodeTimestamp(ts: BeveTimestamp, writer: Writer): void {
  * Encode JavaScript Date as BEVE timestamp
  */
 export function encodeDateAsTimestamp(date: Date, writer: Writer): void {
+    if (isNaN(date.getTime())) {
+        throw new Error('Cannot encode invalid Date as timestamp');
+    }
     const ts = dateToTimestamp(date);
     encodeTimestamp(ts, writer);
 }
@@ -92,19 +98,14 @@ export function decodeTimestamp(buffer: Uint8Array, cursor: { value: number }):
     const precision = buffer[cursor.value++];
     const hasTz = (precision & 0b1) === 1;
     
-    // Read seconds (int64, little-endian)
-    const seconds = buffer[cursor.value] |
-                   (buffer[cursor.value + 1] << 8) |
-                   (buffer[cursor.value + 2] << 16) |
-                   (buffer[cursor.value + 3] << 24);
-    cursor.value += 8;
+    // Read seconds (int64, little-endian); bigint only beyond the safe range
+    const bigSeconds = readBigInt64(buffer, cursor);
+    const seconds = bigSeconds >= BigInt(Number.MIN_SAFE_INTEGER) && bigSeconds <= BigInt(Number.MAX_SAFE_INTEGER)
+        ? Number(bigSeconds)
+        : bigSeconds;
     
     // Read nanoseconds (uint32, little-endian)
-    const nanoseconds = buffer[cursor.value] |
-                       (buffer[cursor.value + 1] << 8) |
-                       (buffer[cursor.value + 2] << 16) |
-                       (buffer[cursor.value + 3] << 24);
-    cursor.value += 4;
+    const nanoseconds = readUInt32(buffer, cursor);
     
     // Read timezone offset if present
     let timezoneOffset: number | null = null;
@@ -0,0 +1,279 @@
+/**
+ * BEVE Extension 2: Typed Nested Arrays
+ *
+ * Arrays of same-typed numeric arrays, ragged or not (polygon rings, token
+ * id batches), written with one element type for all of them, a table of
+ * lengths and a single contiguous data block.
+ *
+ * Performance: one header byte per inner array less than nested typed
+ * arrays, one element type for all of them, and a single bulk copy to decode
+ *
+ * Format:
+ * [0x0F 0x08]             // Extension 2 header (type 7 | layout 1 << 3, compressed ID 2)
+ * [element header: byte]  // Typed array header (type 4) of the element type
+ * [count: varint]         // Number of inner arrays
+ * [lengths: varint × N]   // Length of each inner array
+ * [data]                  // Every element of every inner array, little-endian
+ */
+
+import { Writer } from '../writer';
+import {
+    writeCompressed,
+    read_compressed,
+    LITTLE_ENDIAN,
+    swapByteOrder,
+    TYPED_ARRAY_CONSTRUCTORS,
+    NumericTypedArray,
+} from '../utils';
+import {
+    ExtensionID,
+    writeExtensionHeader,
+    BeveNestedArray,
+    NumericElementType,
+    NUMERIC_ELEMENT_TYPES,
+    numericElementTypeOf,
+    toNumericTypedArray,
+} from './types';
+import {
+    DecodeContext,
+    createDecodeContext,
+    convertInt64,
+    reserve_internal,
+    read_typed_array_internal,
+} from '../decode-context';
+
+/** Inner arrays accepted by the encoder */
+type InnerArray = number[] | bigint[] | NumericTypedArray;
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Encode an array of numeric arrays (Extension 2)
+ *
+ * The element type defaults to the inner TypedArrays' own type, or to the
+ * narrowest integer type holding every element (float64 for fractions).
+ *
+ * @example
+ * // Ragged token id batches, written as one uint16 block
+ * encodeTypedNestedArray([[101, 2023, 102], [101, 102], [7]], writer);
+ *
+ * // Already flattened polygon rings
+ * encodeTypedNestedArray({ offsets: Uint32Array.of(0, 8, 14), values: coords }, writer);
+ */
+export function encodeTypedNestedArray(
+    value: InnerArray[] | BeveNestedArray,
+    writer: Writer,
+    type?: NumericElementType
+): void {
+    let lengths: ArrayLike<number>;
+    let data: NumericTypedArray;
+
+    if (isBeveNestedArray(value)) {
+        const { offsets, values } = value;
+        if (offsets[0] !== 0 || offsets[offsets.length - 1] !== values.length) {
+            throw new Error('Invalid nested array: offsets must run from 0 to values.length');
+        }
+        const counts = new Array(offsets.length - 1);
+        for (let i = 0; i < counts.length; i++) {
+            counts[i] = offsets[i + 1] - offsets[i];
+            if (counts[i] < 0) {
+                throw new Error(`Invalid nested array: offsets decrease at index ${i}`);
+            }
+        }
+        lengths = counts;
+        data = type && numericElementTypeOf(values) !== type ? toNumericTypedArray(values, type) : values;
+    } else {
+        const elementType = type ?? nestedArrayElementType(value);
+        if (!elementType) {
+            throw new Error('Data is not a typed nested array (inner arrays must hold numbers, or bigints, only)');
+        }
+        lengths = value.map(inner => inner.length);
+        data = flatten(value, elementType);
+    }
+
+    const [numType, byteIndex] = NUMERIC_ELEMENT_TYPES[numericElementTypeOf(data)];
+    writeExtensionHeader(writer, ExtensionID.TYPED_NESTED_ARRAY);
+    writer.append_uint8(4 | (numType << 3) | (byteIndex << 5));
+    writeCompressed(writer, lengths.length);
+    for (let i = 0; i < lengths.length; i++) {
+        writeCompressed(writer, lengths[i]);
+    }
+
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    writer.append_bytes(LITTLE_ENDIAN ? bytes : swapByteOrder(bytes.slice(), data.BYTES_PER_ELEMENT));
+}
+
+/**
+ * Check for a non-empty array of numeric arrays that can be written as one
+ * typed nested array
+ */
+export function isTypedNestedArray(value: any): value is InnerArray[] {
+    return nestedArrayElementType(value) !== null;
+}
+
+/**
+ * Element type a typed nested array would be written with, or null when
+ * the value is not one: the inner TypedArrays' common type, int64/uint64
+ * for bigints, the narrowest integer type, or float64
+ */
+export function nestedArrayElementType(value: any): NumericElementType | null {
+    if (!Array.isArray(value) || value.length === 0) {
+        return null;
+    }
+
+    if (value.every(inner => ArrayBuffer.isView(inner))) {
+        const type = typed_element_type(value[0]);
+        return type && value.every(inner => typed_element_type(inner) === type) ? type : null;
+    }
+    if (!value.every(Array.isArray)) {
+        return null;
+    }
+
+    let kind: 'number' | 'bigint' | null = null;
+    let min: number | bigint = 0;
+    let max: number | bigint = 0;
+    let integers = true;
+    for (const inner of value as any[][]) {
+        for (let i = 0; i < inner.length; i++) {
+            const v = inner[i];
+            // `i in inner` rejects holes in sparse arrays
+            if ((typeof v !== 'number' && typeof v !== 'bigint') || !(i in inner) || (kind && typeof v !== kind)) {
+                return null;
+            }
+            kind = typeof v as 'number' | 'bigint';
+            if (typeof v === 'number' && !Number.isInteger(v)) {
+                integers = false;
+            }
+            if (v < min) min = v;
+            if (v > max) max = v;
+        }
+    }
+
+    if (kind === 'bigint') {
+        return min < 0n ? 'int64' : 'uint64';
+    }
+    if (!integers) {
+        return 'float64';
+    }
+    const lo = Number(min);
+    const hi = Number(max);
+    if (lo >= 0) {
+        if (hi <= 0xFF) return 'uint8';
+        if (hi <= 0xFFFF) return 'uint16';
+        if (hi <= 0xFFFFFFFF) return 'uint32';
+        return hi < 2 ** 64 ? 'uint64' : 'float64';
+    }
+    if (lo >= -0x80 && hi <= 0x7F) return 'int8';
+    if (lo >= -0x8000 && hi <= 0x7FFF) return 'int16';
+    if (lo >= -0x80000000 && hi <= 0x7FFFFFFF) return 'int32';
+    return lo >= -(2 ** 63) && hi < 2 ** 63 ? 'int64' : 'float64';
+}
+
+function typed_element_type(view: ArrayBufferView): NumericElementType | null {
+    if (view instanceof DataView || view instanceof Uint8ClampedArray) {
+        return null;
+    }
+    try {
+        return numericElementTypeOf(view as NumericTypedArray);
+    } catch {
+        // Kinds without a BEVE element type (e.g. Float16Array)
+        return null;
+    }
+}
+
+function isBeveNestedArray(value: any): value is BeveNestedArray {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+        value.offsets instanceof Uint32Array && ArrayBuffer.isView(value.values);
+}
+
+function flatten(arrays: InnerArray[], type: NumericElementType): NumericTypedArray {
+    let total = 0;
+    for (const inner of arrays) {
+        total += inner.length;
+    }
+
+    const [numType, byteIndex] = NUMERIC_ELEMENT_TYPES[type];
+    const Ctor = TYPED_ARRAY_CONSTRUCTORS[numType][byteIndex]!;
+    const data = new Ctor(new ArrayBuffer(total * Ctor.BYTES_PER_ELEMENT), 0, total);
+    let offset = 0;
+    for (const inner of arrays) {
+        const converted = ArrayBuffer.isView(inner) && numericElementTypeOf(inner) === type
+            ? inner
+            : toNumericTypedArray(inner as ArrayLike<number | bigint>, type);
+        (data as any).set(converted, offset);
+        offset += inner.length;
+    }
+    return data;
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+/**
+ * Decode a typed nested array (Extension 2)
+ *
+ * Returns an array of inner arrays, shaped by the typedArrays option (plain
+ * arrays, or TypedArray views of one copy of the data), or with the
+ * `nestedArrays: 'offsets'` decode option a { offsets, values } pair.
+ *
+ * @param buffer - BEVE binary data
+ * @param cursor - Current position in buffer (will be updated)
+ * @param ctx - Decode context of the enclosing read
+ */
+export function decodeTypedNestedArray(
+    buffer: Uint8Array,
+    cursor: { value: number },
+    ctx?: DecodeContext
+): any[] | BeveNestedArray {
+    // Header already consumed by caller
+    ctx ??= createDecodeContext();
+    const options = ctx.options;
+
+    if (cursor.value >= buffer.length) {
+        throw new Error(`Buffer overflow: nested array element header at cursor ${cursor.value}, buffer length ${buffer.length}`);
+    }
+    const elementHeader = buffer[cursor.value++];
+    const numType = (elementHeader >> 3) & 0b11;
+    const byteIndex = elementHeader >> 5;
+    const Ctor = (elementHeader & 0b111) === 4 ? TYPED_ARRAY_CONSTRUCTORS[numType]?.[byteIndex] : null;
+    if (!Ctor) {
+        throw new Error(`Unsupported nested array element header: ${elementHeader}`);
+    }
+
+    const N = read_compressed(buffer, cursor);
+    reserve_internal(buffer, cursor, ctx, N, 'maxArrayLength', 1);
+    const offsets = new Uint32Array(N + 1);
+    let total = 0;
+    for (let i = 0; i < N; i++) {
+        const length = read_compressed(buffer, cursor);
+        reserve_internal(buffer, cursor, ctx, length, 'maxArrayLength', Ctor.BYTES_PER_ELEMENT);
+        total += length;
+        if (total > 0xFFFFFFFF) {
+            throw new Error(`Nested array too large: more than ${0xFFFFFFFF} elements`);
+        }
+        offsets[i + 1] = total;
+    }
+
+    const values: NumericTypedArray = read_typed_array_internal(
+        buffer, cursor, Ctor, total, options.typedArrays === 'native' ? 'native' : 'copy');
+    if (options.nestedArrays === 'offsets') {
+        return { offsets, values };
+    }
+
+    const result = new Array(N);
+    const int64 = byteIndex === 3 && numType !== 0;
+    for (let i = 0; i < N; i++) {
+        const inner = values.subarray(offsets[i], offsets[i + 1]);
+        if (options.typedArrays !== 'array') {
+            result[i] = inner;
+        } else if (int64) {
+            result[i] = Array.from(inner as BigInt64Array, v => convertInt64(v, options.int64));
+        } else {
+            result[i] = Array.from(inner as ArrayLike<number>);
+        }
+    }
+    return result;
+}
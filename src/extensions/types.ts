@@ -6,10 +6,34 @@
  * backward compatibility with standard BEVE parsers.
  */
 
+import { Writer } from '../writer';
+import { writeCompressed, read_compressed, TYPED_ARRAY_CONSTRUCTORS, NumericTypedArray } from '../utils';
+
 // ============================================================================
 // Extension IDs (Specification §6)
 // ============================================================================
 
+/**
+ * Extensions defined by the upstream BEVE spec, carried by type 6 headers
+ * with the subtype in bits 3-7 (as written by glaze)
+ */
+export const enum SpecExtension {
+    /** Data delimiter - separates consecutive values in a stream */
+    DELIMITER = 0,
+    
+    /** Type tag - variant index followed by the value */
+    VARIANT = 1,
+    
+    /** Matrix - layout byte, extents and a typed array of values */
+    MATRIX = 2,
+    
+    /** Complex numbers - pairs of numerical types */
+    COMPLEX = 3,
+}
+
+/**
+ * IDs of this library's own extensions, written after a type 7 header
+ */
 export const enum ExtensionID {
     /** Extension 0: Field Index - O(1) field access in objects */
     FIELD_INDEX = 0,
@@ -20,7 +44,7 @@ export const enum ExtensionID {
     /** Extension 2: Typed Nested Array - Exponential gains for nested structures */
     TYPED_NESTED_ARRAY = 2,
     
-    /** Extension 3: Complex Numbers - Pairs of numerical types */
+    /** Extension 3: Complex Numbers - written as SpecExtension.COMPLEX for glaze compatibility */
     COMPLEX_NUMBERS = 3,
     
     /** Extension 4: Timestamp - Nanosecond precision with timezone */
@@ -40,36 +64,213 @@ export const enum ExtensionID {
     
     /** Extension 9: RegExp - Regular expressions with flags */
     REGEXP = 9,
+    
+    /** Extension 10: Binary - raw bytes (Uint8Array) */
+    BINARY = 10,
+    
+    /** Extension 11: Typed Object Columns - Extension 1 stored column by column */
+    TYPED_OBJECT_COLUMNS = 11,
+    
+    /** Extension 12: Class Instance - registered classes rebuilt on read */
+    CLASS_INSTANCE = 12,
 }
 
+/** Names of the extensions, for diagnostics */
+export const EXTENSION_NAMES: Record<ExtensionID, string> = {
+    [ExtensionID.FIELD_INDEX]: 'field-index',
+    [ExtensionID.TYPED_ARRAY]: 'typed-object-array',
+    [ExtensionID.TYPED_NESTED_ARRAY]: 'typed-nested-array',
+    [ExtensionID.COMPLEX_NUMBERS]: 'complex',
+    [ExtensionID.TIMESTAMP]: 'timestamp',
+    [ExtensionID.DURATION]: 'duration',
+    [ExtensionID.INTERVAL]: 'interval',
+    [ExtensionID.RESERVED_7]: 'reserved',
+    [ExtensionID.UUID]: 'uuid',
+    [ExtensionID.REGEXP]: 'regexp',
+    [ExtensionID.BINARY]: 'binary',
+    [ExtensionID.TYPED_OBJECT_COLUMNS]: 'typed-object-columns',
+    [ExtensionID.CLASS_INSTANCE]: 'class-instance',
+};
+
 // ============================================================================
 // Extension Headers
 // ============================================================================
 
 /**
- * Extension header format:
- * Bits 0-2: Type (0b110 = extension)
- * Bits 3-7: Extension ID (0-31)
+ * Header layout version written by this library
+ *
+ * Version 1 (current):
+ * - Spec extensions: type 6, subtype in bits 3-7 (see SpecExtension)
+ * - Custom extensions: type 7 (reserved by the spec), layout version in
+ *   bits 3-7, then the ExtensionID as a compressed integer
+ *
+ * Version 0 (legacy, up to 1.1): custom extensions used type 6 with the
+ * ExtensionID in bits 3-7, and binary data was type 6 with ID 0, colliding
+ * with the spec extensions. Read it with `extensionLayout: 'legacy'`.
+ */
+export const EXTENSION_LAYOUT_VERSION = 1;
+
+/** Header type (bits 0-2) of spec extensions */
+export const SPEC_EXTENSION_TYPE = 0b110;
+
+/** Header type (bits 0-2) of custom extensions */
+export const CUSTOM_EXTENSION_TYPE = 0b111;
+
+/**
+ * Create the header bytes of a custom extension
+ */
+export function createExtensionHeader(extId: ExtensionID | number): Uint8Array {
+    const writer = new Writer(8);
+    writeExtensionHeader(writer, extId);
+    return writer.buffer.slice(0, writer.offset);
+}
+
+/**
+ * Write the header of a custom extension
+ */
+export function writeExtensionHeader(writer: Writer, extId: ExtensionID | number): void {
+    writer.append_uint8(CUSTOM_EXTENSION_TYPE | (EXTENSION_LAYOUT_VERSION << 3));
+    writeCompressed(writer, extId);
+}
+
+/**
+ * Create a spec extension header (single byte)
  */
-export function createExtensionHeader(extId: ExtensionID): number {
-    return 0b00000110 | (extId << 3);
+export function createSpecExtensionHeader(subtype: SpecExtension): number {
+    return SPEC_EXTENSION_TYPE | (subtype << 3);
 }
 
-export function parseExtensionHeader(header: number): { isExtension: boolean; extId: ExtensionID } {
+/**
+ * Create a version 0 (legacy) extension header, for producing test data and
+ * talking to readers older than 1.2
+ */
+export function createLegacyExtensionHeader(extId: ExtensionID): number {
+    return SPEC_EXTENSION_TYPE | (extId << 3);
+}
+
+export interface ExtensionHeader {
+    /** 'spec' for type 6 headers, 'custom' for type 7 headers */
+    kind: 'spec' | 'custom';
+    /** SpecExtension subtype or ExtensionID */
+    extId: number;
+    /** Header size in bytes */
+    size: number;
+}
+
+/**
+ * Parse the extension header at offset; returns null for non-extension values
+ */
+export function parseExtensionHeader(buffer: Uint8Array, offset: number = 0): ExtensionHeader | null {
+    const header = buffer[offset];
     const type = header & 0b00000111;
-    const isExtension = type === 0b110;
-    const extId = (header & 0b11111000) >> 3;
     
-    return { isExtension, extId };
+    if (type === SPEC_EXTENSION_TYPE) {
+        return { kind: 'spec', extId: header >> 3, size: 1 };
+    }
+    if (type !== CUSTOM_EXTENSION_TYPE) {
+        return null;
+    }
+    
+    const version = header >> 3;
+    if (version !== EXTENSION_LAYOUT_VERSION) {
+        throw new Error(`Unsupported extension layout version: ${version}`);
+    }
+    const cursor = { value: offset + 1 };
+    const extId = read_compressed(buffer, cursor);
+    return { kind: 'custom', extId, size: cursor.value - offset };
 }
 
 // ============================================================================
 // Extension Type Definitions
 // ============================================================================
 
+/**
+ * Type-tagged value (spec extension 1), e.g. a glaze std::variant
+ * - 1 byte: header (0x0E)
+ * - index: compressed integer
+ * - value: any BEVE value
+ */
+export interface BeveVariant {
+    /** Index of the alternative held */
+    index: number;
+    value: any;
+}
+
+/**
+ * Matrix (spec extension 2)
+ * - 1 byte: header (0x16)
+ * - 1 byte: layout (bit 0: 0 = layout_right / row major, 1 = layout_left / column major)
+ * - extents: typed array of unsigned integers
+ * - value: typed array of the elements
+ */
+export interface BeveMatrix {
+    layout: 'layout_right' | 'layout_left';
+    /** Size of each dimension, e.g. [rows, columns] */
+    extents: number[];
+    /** Elements in layout order */
+    value: ArrayLike<any>;
+}
+
+/**
+ * Array of same-typed numeric arrays, possibly ragged, in offsets form
+ * Extension 2 format (variable):
+ * - 2 bytes: header
+ * - 1 byte: element header (as for typed arrays)
+ * - count and length of each inner array (compressed integers)
+ * - all elements, contiguous
+ *
+ * Inner array i is values[offsets[i] .. offsets[i + 1]).
+ */
+export interface BeveNestedArray {
+    /** Start of each inner array in values, plus the total length (count + 1 entries) */
+    offsets: Uint32Array;
+    /** Elements of every inner array, back to back */
+    values: NumericTypedArray;
+}
+
+/**
+ * Dictionary-encoded string column of a typed object array (Extensions 1
+ * and 11), as returned by decodeColumn with `dictionaries: 'indices'`
+ */
+export interface BeveDictionaryColumn {
+    /** Distinct strings of the column, most frequent first */
+    dictionary: string[];
+    /** Index into dictionary of each row's value (holes where rows lack the field) */
+    indices: ArrayLike<number>;
+}
+
+/**
+ * Typed object array decoded column by column (`tables: 'columns'`)
+ */
+export interface BeveTable {
+    /** Field names, sorted as in the schema */
+    fields: string[];
+    /**
+     * Values of each field, one slot per row: a TypedArray for numeric
+     * columns, otherwise a plain array (with holes where rows lack the field)
+     */
+    columns: Record<string, ArrayLike<any> | BeveDictionaryColumn>;
+    /** Row count */
+    length: number;
+}
+
+/**
+ * Complex number (Extension 3, written as the spec's complex extension)
+ * - 1 byte: header (0x1E)
+ * - 1 byte: complex header (number or array, element type and width)
+ * - real and imaginary parts
+ */
+export interface BeveComplex {
+    /** Real part */
+    re: number;
+    /** Imaginary part */
+    im: number;
+}
+
 /**
  * Timestamp with nanosecond precision and optional timezone
- * Extension 4 format (14-16 bytes):
+ * Extension 4 format (15-17 bytes):
+ * - 2 bytes: header
  * - 1 byte: precision flags
  * - 8 bytes: seconds (int64, little-endian)
  * - 4 bytes: nanoseconds (uint32, little-endian)
@@ -86,8 +287,8 @@ export interface BeveTimestamp {
 
 /**
  * Duration with nanosecond precision
- * Extension 5 format (14 bytes):
- * - 1 byte: header
+ * Extension 5 format (15 bytes):
+ * - 2 bytes: header
  * - 8 bytes: seconds (int64, little-endian)
  * - 4 bytes: nanoseconds (uint32, little-endian)
  */
@@ -99,23 +300,24 @@ export interface BeveDuration {
 }
 
 /**
- * Time interval (start + end timestamps)
- * Extension 6 format (29 bytes):
- * - 1 byte: header
- * - 14 bytes: start timestamp
- * - 14 bytes: end timestamp
+ * Half-open time interval [start, end); a null endpoint is unbounded
+ * Extension 6 format (3-35 bytes):
+ * - 2 bytes: header
+ * - 1 byte: endpoint flags (bit 0: has start, bit 1: has end)
+ * - 13-15 bytes: start timestamp (Extension 4 payload), if present
+ * - 13-15 bytes: end timestamp (Extension 4 payload), if present
  */
 export interface BeveInterval {
-    /** Start time */
-    start: BeveTimestamp;
-    /** End time */
-    end: BeveTimestamp;
+    /** Start time, inclusive (null = open-ended) */
+    start: BeveTimestamp | null;
+    /** End time, exclusive (null = open-ended) */
+    end: BeveTimestamp | null;
 }
 
 /**
  * UUID in binary format
- * Extension 8 format (18 bytes):
- * - 1 byte: header
+ * Extension 8 format (19 bytes):
+ * - 2 bytes: header
  * - 1 byte: version (1-5)
  * - 16 bytes: UUID binary data
  */
@@ -129,7 +331,7 @@ export interface BeveUUID {
 /**
  * Regular expression with flags
  * Extension 9 format (variable):
- * - 1 byte: header
+ * - 2 bytes: header
  * - 1 byte: flags
  * - N bytes: pattern (UTF-8 string with size prefix)
  */
@@ -140,6 +342,57 @@ export interface BeveRegExp {
     flags: number;
 }
 
+// ============================================================================
+// Numeric Element Types
+// ============================================================================
+
+/**
+ * Element type of numeric extension payloads (complex parts, nested arrays)
+ */
+export type NumericElementType =
+    | 'float32' | 'float64'
+    | 'int8' | 'int16' | 'int32' | 'int64'
+    | 'uint8' | 'uint16' | 'uint32' | 'uint64';
+
+/** [BEVE number type, byte count index] of each element type */
+export const NUMERIC_ELEMENT_TYPES: Record<NumericElementType, [number, number]> = {
+    float32: [0, 2],
+    float64: [0, 3],
+    int8: [1, 0],
+    int16: [1, 1],
+    int32: [1, 2],
+    int64: [1, 3],
+    uint8: [2, 0],
+    uint16: [2, 1],
+    uint32: [2, 2],
+    uint64: [2, 3],
+};
+
+/**
+ * Element type of a numeric TypedArray
+ */
+export function numericElementTypeOf(data: NumericTypedArray): NumericElementType {
+    for (const [type, [numType, byteIndex]] of Object.entries(NUMERIC_ELEMENT_TYPES)) {
+        if (data instanceof TYPED_ARRAY_CONSTRUCTORS[numType][byteIndex]!) {
+            return type as NumericElementType;
+        }
+    }
+    throw new Error(`Unsupported numeric array type: ${Object.prototype.toString.call(data)}`);
+}
+
+/**
+ * Copy numbers or bigints into a TypedArray of the given element type
+ * (64-bit integer types truncate fractions; other integer types wrap)
+ */
+export function toNumericTypedArray(values: ArrayLike<number | bigint>, type: NumericElementType): NumericTypedArray {
+    const [numType, byteIndex] = NUMERIC_ELEMENT_TYPES[type];
+    const Ctor = TYPED_ARRAY_CONSTRUCTORS[numType][byteIndex]!;
+    if (byteIndex === 3 && numType !== 0) {
+        return (Ctor as BigInt64ArrayConstructor).from(values as ArrayLike<any>, v => typeof v === 'bigint' ? v : BigInt(Math.trunc(v)));
+    }
+    return (Ctor as Float64ArrayConstructor).from(values as ArrayLike<any>, Number);
+}
+
 // ============================================================================
 // RegExp Flags (Extension 9)
 // ============================================================================
@@ -149,8 +402,11 @@ export const enum RegExpFlags {
     CASE_INSENSITIVE = 0x01,  // (?i) - /i
     MULTILINE = 0x02,         // (?m) - /m
     DOT_ALL = 0x04,           // (?s) - /s
-    UNICODE = 0x08,           // Unicode mode
+    UNICODE = 0x08,           // /u - Unicode mode
     GLOBAL = 0x10,            // /g - global search
+    STICKY = 0x20,            // /y - match at lastIndex only
+    UNICODE_SETS = 0x40,      // /v - Unicode sets mode
+    HAS_INDICES = 0x80,       // /d - match indices
 }
 
 // ============================================================================
@@ -162,8 +418,10 @@ export const enum RegExpFlags {
  * Stores field names once, then only values for each object
  */
 export interface TypedArraySchema {
-    /** Field names in order */
+    /** Field names in order (union of every object's keys) */
     fields: string[];
+    /** Fields missing (or undefined) in some objects */
+    optional?: string[];
     /** Number of objects */
     count: number;
 }
@@ -179,6 +437,21 @@ export interface EncodeOptions {
     /** Use field index for large objects (Extension 0) */
     useFieldIndex?: boolean;
     
+    /** Minimum entry count of an object or array to get an index (default: 64) */
+    fieldIndexThreshold?: number;
+    
+    /** Give large generic arrays an element offset table (Extension 0) */
+    indexArrays?: boolean;
+    
+    /** Write arrays of same-typed numeric arrays, ragged or not, as typed nested arrays (Extension 2) */
+    typedNestedArrays?: boolean;
+    
+    /** Store typed object arrays column by column (Extension 11) */
+    columnar?: boolean;
+    
+    /** Dictionary-encode repetitive string fields of typed object arrays when smaller (default: true) */
+    dictionaries?: boolean;
+    
     /** Minimum array size to use typed schema (default: 5) */
     minArraySize?: number;
     
@@ -187,14 +460,83 @@ export interface EncodeOptions {
     
     /** Include fallback for backward compatibility */
     includeFallback?: boolean;
+    
+    /** Write objects whose keys are all integers as integer-keyed objects */
+    integerKeys?: boolean;
+    
+    /** Float width: 'float64' (default), or 'lossless' to write float32 whenever it is exact */
+    floatPrecision?: 'float64' | 'lossless';
+    
+    /**
+     * Force (lossy) float32 for every float (true) or for floats at or below
+     * the listed paths (dot-separated keys/indices, '*' matches any segment)
+     */
+    forceFloat32?: boolean | string[];
+    
+    /**
+     * Write { re, im } objects and arrays of them as complex numbers
+     * (Extension 3): true for everywhere, or a list of paths. At listed paths,
+     * numeric TypedArrays are also written as interleaved complex arrays.
+     */
+    complex?: boolean | string[];
+    
+    /**
+     * Write { start, end } objects whose endpoints are Dates, BeveTimestamps
+     * or null as intervals (Extension 6): true for everywhere, or a list of paths
+     */
+    intervals?: boolean | string[];
+
+    /**
+     * Write Uint8Arrays as binary data (Extension 10), which decodes as a
+     * Uint8Array (default: true); false writes spec uint8 typed arrays
+     */
+    binary?: boolean;
+
+    /**
+     * Called for every object property, array element and Map value before it
+     * is written, as JSON.stringify's replacer: `this` is the holder, the key
+     * is a string ('' for the root) and undefined omits a property
+     */
+    replacer?: (this: any, key: string, value: any) => any;
+}
+
+/**
+ * One value written through an extension, as reported by encodeAutoWithStats
+ */
+export interface ExtensionApplication {
+    /** Dot-separated path of the value ('' for the root) */
+    path: string;
+    /** ExtensionID, or the ID of a registered application extension */
+    extension: number;
+    /** Name of the extension, e.g. 'typed-object-array' */
+    name: string;
+    /** Encoded size of the value, header included */
+    bytes: number;
+}
+
+export interface EncodeStats {
+    /** Every extension application, innermost values first */
+    applied: ExtensionApplication[];
+    /** Number of applications per extension name */
+    counts: Record<string, number>;
 }
 
 export const DEFAULT_ENCODE_OPTIONS: EncodeOptions = {
     useTypedSchema: false,
     useFieldIndex: false,
+    fieldIndexThreshold: 64,
+    indexArrays: false,
+    typedNestedArrays: false,
+    columnar: false,
+    dictionaries: true,
     minArraySize: 5,
     autoDetect: true,
     includeFallback: false,
+    integerKeys: false,
+    floatPrecision: 'float64',
+    forceFloat32: false,
+    complex: false,
+    intervals: false,
 };
 
 // ============================================================================
@@ -202,44 +544,39 @@ export const DEFAULT_ENCODE_OPTIONS: EncodeOptions = {
 // ============================================================================
 
 /**
- * Check if data is an array of objects with the same schema
+ * Check if data is a non-empty array of plain objects, which typed object
+ * arrays (Extensions 1 and 11) can hold: rows may have different keys, the
+ * schema being their union
  */
 export function isTypedObjectArray(data: any): boolean {
     if (!Array.isArray(data) || data.length === 0) {
         return false;
     }
     
-    // Check if all elements are objects
-    if (!data.every(item => typeof item === 'object' && item !== null && !Array.isArray(item))) {
-        return false;
-    }
-    
-    // Get keys from first object
-    const firstKeys = Object.keys(data[0]).sort();
-    
-    // Check if all objects have the same keys
-    return data.every(obj => {
-        const keys = Object.keys(obj).sort();
-        return keys.length === firstKeys.length &&
-               keys.every((key, i) => key === firstKeys[i]);
+    // Dates, Maps, class instances etc. would lose their type
+    return data.every(item => {
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+            return false;
+        }
+        const proto = Object.getPrototypeOf(item);
+        return proto === Object.prototype || proto === null;
     });
 }
 
 /**
- * Detect if byte array contains extension header
+ * Detect if byte array starts with an extension header
  */
-export function detectExtension(buffer: Uint8Array): { hasExtension: boolean; extId?: ExtensionID } {
+export function detectExtension(buffer: Uint8Array): { hasExtension: boolean; kind?: 'spec' | 'custom'; extId?: number } {
     if (buffer.length === 0) {
         return { hasExtension: false };
     }
     
-    const header = buffer[0];
-    const { isExtension, extId } = parseExtensionHeader(header);
+    const header = parseExtensionHeader(buffer);
+    if (!header) {
+        return { hasExtension: false };
+    }
     
-    return {
-        hasExtension: isExtension,
-        extId: isExtension ? extId : undefined,
-    };
+    return { hasExtension: true, kind: header.kind, extId: header.extId };
 }
 
 /**
@@ -248,7 +585,8 @@ export function detectExtension(buffer: Uint8Array): { hasExtension: boolean; ex
 export function dateToTimestamp(date: Date): BeveTimestamp {
     const ms = date.getTime();
     const seconds = Math.floor(ms / 1000);
-    const nanoseconds = (ms % 1000) * 1_000_000;
+    // Non-negative even before 1970, since seconds rounds down
+    const nanoseconds = (ms - seconds * 1000) * 1_000_000;
     
     return {
         seconds,
@@ -3,16 +3,16 @@
  * 
  * Binary UUID encoding - 50% smaller than string representation.
  * 
- * Performance: 18 bytes (vs 36 bytes string + quotes)
+ * Performance: 19 bytes (vs 36 bytes string + quotes)
  * 
  * Format:
- * [0xC6]                  // Extension 8 header (0b110 | 8<<3 = 0x46, then 0x80 | 0x46 = 0xC6)
+ * [0x0F 0x20]             // Extension 8 header (type 7 | layout 1 << 3, compressed ID 8)
  * [version: byte]         // UUID version (1-5)
  * [uuid: 16 bytes]        // Binary UUID data
  */
 
 import { Writer } from '../writer';
-import { ExtensionID, createExtensionHeader, BeveUUID, parseUUID, formatUUID, getUUIDVersion } from './types';
+import { ExtensionID, writeExtensionHeader, parseExtensionHeader, BeveUUID, parseUUID, formatUUID, getUUIDVersion } from './types';
 
 // ============================================================================
 // Encoder
@@ -25,12 +25,11 @@ import { ExtensionID, createExtensionHeader, BeveUUID, parseUUID, formatUUID, ge
  * const uuid = parseUUID("550e8400-e29b-41d4-a716-446655440000");
  * const bytes = encodeUUID(uuid, writer);
  * 
- * // Size: 18 bytes (vs 38 bytes for "550e8400-e29b-41d4-a716-446655440000")
+ * // Size: 19 bytes (vs 38 bytes for "550e8400-e29b-41d4-a716-446655440000")
  */
 export function encodeUUID(uuid: BeveUUID, writer: Writer): void {
     // Write extension header
-    const header = createExtensionHeader(ExtensionID.UUID);
-    writer.append_uint8(header);
+    writeExtensionHeader(writer, ExtensionID.UUID);
     
     // Write version
     writer.append_uint8(uuid.version);
@@ -184,8 +183,8 @@ export function calculateUUIDSavings(): { stringSize: number; binarySize: number
     // String: "550e8400-e29b-41d4-a716-446655440000" = 36 chars + 2 quotes = 38 bytes
     const stringSize = 38;
     
-    // Binary: 1 (header) + 1 (version) + 16 (bytes) = 18 bytes
-    const binarySize = 18;
+    // Binary: 2 (header) + 1 (version) + 16 (bytes) = 19 bytes
+    const binarySize = 19;
     
     const savings = ((stringSize - binarySize) / stringSize) * 100;
     
@@ -276,7 +275,7 @@ export function decodeUUIDBatch(buffer: Uint8Array, cursor: { value: number }):
     
     for (let i = 0; i < count; i++) {
         // Skip extension header
-        cursor.value++; // header
+        cursor.value += parseExtensionHeader(buffer, cursor.value)!.size;
         uuids.push(decodeUUIDString(buffer, cursor));
     }
     
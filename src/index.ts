@@ -57,14 +57,19 @@ export {
 export default beveAPI;
 
 // Direct TypeScript API (for advanced usage)
-export { readBeve, decodeAuto, read_value_internal } from './decoder';
-export { writeBeve, encodeAuto, encodeTyped, write_value_internal } from './encoder';
+export { readBeve, readBeveDelimited, readLegacyBeve, decodeAuto, read_value_internal, read_child_internal, createDecodeContext, convertInt64, DEFAULT_DECODE_OPTIONS } from './decoder';
+export type { DecodeOptions, DecodeContext, TypedArrayMode, Int64Mode, IntegerKeyMode, DateMode, VariantMode, ComplexMode, NestedArrayMode, TableMode, DictionaryMode, ExtensionLayout } from './decoder';
+export { writeBeve, writeBeveDelimited, encodeAuto, encodeAutoWithStats, encodeTyped, write_value_internal, write_child_internal, createEncodeContext } from './encoder';
+export type { EncodeContext } from './encoder';
 export { Writer } from './writer';
 export * from './utils';
 
 // Extension API
 export * from './extensions';
 
+// Conformance corpus
+export * from './conformance';
+
 // Re-export types
 export type { BeveWasmModule } from './wasm-loader';
 
@@ -3,6 +3,41 @@
 // Common utility functions for Beve format
 export const config = [1, 2, 4, 8];
 
+// BEVE stores every multi-byte value little-endian
+export const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+export type NumericTypedArray =
+    | Int8Array | Int16Array | Int32Array | BigInt64Array
+    | Uint8Array | Uint16Array | Uint32Array | BigUint64Array
+    | Float32Array | Float64Array;
+
+export interface NumericTypedArrayConstructor {
+    new (buffer: ArrayBufferLike, byteOffset?: number, length?: number): NumericTypedArray;
+    readonly BYTES_PER_ELEMENT: number;
+}
+
+/**
+ * TypedArray constructors indexed by BEVE number type (0 = float, 1 = signed,
+ * 2 = unsigned) and byte count index (0-3). Float16 has no native view.
+ */
+export const TYPED_ARRAY_CONSTRUCTORS: (NumericTypedArrayConstructor | null)[][] = [
+    [null, null, Float32Array, Float64Array],
+    [Int8Array, Int16Array, Int32Array, BigInt64Array],
+    [Uint8Array, Uint16Array, Uint32Array, BigUint64Array],
+];
+
+/**
+ * Swap the byte order of every element in place (no-op for 1-byte elements)
+ */
+export function swapByteOrder(bytes: Uint8Array, elementSize: number): Uint8Array {
+    if (elementSize > 1) {
+        for (let i = 0; i < bytes.length; i += elementSize) {
+            bytes.subarray(i, i + elementSize).reverse();
+        }
+    }
+    return bytes;
+}
+
 export function read_compressed(buffer: Uint8Array, cursor: { value: number }): number {
     if (cursor.value >= buffer.length) {
         throw new Error('Buffer overflow: trying to read compressed value beyond buffer end');
@@ -80,6 +115,26 @@ export function writeCompressed(writer: any, N: number) {
     }
 }
 
+/**
+ * Compile a path option: dot-separated keys/indices, '*' matches any
+ * segment, '' is the root. Booleans pass through (true = every path).
+ */
+export function compilePaths(option: boolean | string[] | undefined): string[][] | boolean {
+    return Array.isArray(option) ? option.map(p => (p === '' ? [] : p.split('.'))) : !!option;
+}
+
+/**
+ * Match a value path against compiled path patterns
+ *
+ * @param prefix - Also match when a pattern names an ancestor of the path
+ */
+export function matchPath(patterns: string[][], path: string[], prefix = false): boolean {
+    return patterns.some(pattern =>
+        (prefix ? pattern.length <= path.length : pattern.length === path.length) &&
+        pattern.every((segment, i) => segment === '*' || segment === path[i])
+    );
+}
+
 // Helper functions for reading primitive types
 export function readInt8(buffer: Uint8Array, cursor: { value: number }): number {
     if (cursor.value + 1 > buffer.length) {
@@ -94,7 +149,7 @@ export function readInt16(buffer: Uint8Array, cursor: { value: number }): number
     if (cursor.value + 2 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for int16');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 2);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 2);
     const value = view.getInt16(0, true);
     cursor.value += 2;
     return value;
@@ -104,7 +159,7 @@ export function readInt32(buffer: Uint8Array, cursor: { value: number }): number
     if (cursor.value + 4 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for int32');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 4);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 4);
     const value = view.getInt32(0, true);
     cursor.value += 4;
     return value;
@@ -114,7 +169,7 @@ export function readBigInt64(buffer: Uint8Array, cursor: { value: number }): big
     if (cursor.value + 8 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for int64');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 8);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 8);
     const value = view.getBigInt64(0, true);
     cursor.value += 8;
     return value;
@@ -133,7 +188,7 @@ export function readUInt16(buffer: Uint8Array, cursor: { value: number }): numbe
     if (cursor.value + 2 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for uint16');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 2);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 2);
     const value = view.getUint16(0, true);
     cursor.value += 2;
     return value;
@@ -143,7 +198,7 @@ export function readUInt32(buffer: Uint8Array, cursor: { value: number }): numbe
     if (cursor.value + 4 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for uint32');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 4);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 4);
     const value = view.getUint32(0, true);
     cursor.value += 4;
     return value;
@@ -153,7 +208,7 @@ export function readBigUInt64(buffer: Uint8Array, cursor: { value: number }): bi
     if (cursor.value + 8 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for uint64');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 8);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 8);
     const value = view.getBigUint64(0, true);
     cursor.value += 8;
     return value;
@@ -163,7 +218,7 @@ export function readFloat(buffer: Uint8Array, cursor: { value: number }): number
     if (cursor.value + 4 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for float32');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 4);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 4);
     const value = view.getFloat32(0, true);
     cursor.value += 4;
     return value;
@@ -173,8 +228,25 @@ export function readDouble(buffer: Uint8Array, cursor: { value: number }): numbe
     if (cursor.value + 8 > buffer.length) {
         throw new Error('Buffer overflow: not enough data for float64');
     }
-    const view = new DataView(buffer.buffer, cursor.value, 8);
+    const view = new DataView(buffer.buffer, buffer.byteOffset + cursor.value, 8);
     const value = view.getFloat64(0, true);
     cursor.value += 8;
     return value;
-}
\ No newline at end of file
+}
+/**
+ * Read a raw integer of the given signedness and byte count (1, 2, 4 or 8)
+ */
+export function readInteger(buffer: Uint8Array, cursor: { value: number }, signed: boolean, byteCount: number): number | bigint {
+    switch (byteCount) {
+        case 1:
+            return signed ? readInt8(buffer, cursor) : readUInt8(buffer, cursor);
+        case 2:
+            return signed ? readInt16(buffer, cursor) : readUInt16(buffer, cursor);
+        case 4:
+            return signed ? readInt32(buffer, cursor) : readUInt32(buffer, cursor);
+        case 8:
+            return signed ? readBigInt64(buffer, cursor) : readBigUInt64(buffer, cursor);
+        default:
+            throw new Error(`Invalid integer byte count: ${byteCount}`);
+    }
+}
@@ -51,15 +51,14 @@ export class Writer {
         }
     }
 
-    append_uint64(value: number) {
-        if (Number.isInteger(value) && value >= 0 && value <= 18446744073709551615) {
+    append_uint64(value: number | bigint) {
+        // Numbers are converted exactly; pass a bigint for values above 2^53
+        const big = typeof value === 'bigint' ? value : Number.isInteger(value) ? BigInt(value) : null;
+        if (big !== null && big >= 0n && big <= 18446744073709551615n) {
             // 64-bit unsigned integer
             this.ensureCapacity(8);
-            let high = Math.floor(value / 0x100000000);
-            let low = value % 0x100000000;
             let view = new DataView(this.buffer.buffer);
-            view.setUint32(this.offset, low, true); // little-endian
-            view.setUint32(this.offset + 4, high, true); // little-endian
+            view.setBigUint64(this.offset, big, true); // little-endian
             this.offset += 8;
         } else {
             throw new Error('Value must be an integer between 0 and 18446744073709551615');
@@ -102,14 +101,41 @@ export class Writer {
         }
     }
 
-    append_int64(value: bigint) {
-        // 64-bit signed integer
+    append_int64(value: number | bigint) {
+        const big = typeof value === 'bigint' ? value : Number.isInteger(value) ? BigInt(value) : null;
+        if (big !== null && big >= -9223372036854775808n && big <= 9223372036854775807n) {
+            // 64-bit signed integer
+            this.ensureCapacity(8);
+            let view = new DataView(this.buffer.buffer);
+            view.setBigInt64(this.offset, big, true); // little-endian
+            this.offset += 8;
+        } else {
+            throw new Error('Value must be an integer between -9223372036854775808 and 9223372036854775807');
+        }
+    }
+
+    append_float32(value: number) {
+        // 32-bit floating-point number
+        this.ensureCapacity(4);
+        let view = new DataView(this.buffer.buffer);
+        view.setFloat32(this.offset, value, true); // little-endian
+        this.offset += 4;
+    }
+
+    append_float64(value: number) {
+        // 64-bit floating-point number (double)
         this.ensureCapacity(8);
         let view = new DataView(this.buffer.buffer);
-        view.setBigInt64(this.offset, value, true); // little-endian
+        view.setFloat64(this.offset, value, true); // little-endian
         this.offset += 8;
     }
 
+    append_bytes(bytes: Uint8Array) {
+        this.ensureCapacity(bytes.length);
+        this.buffer.set(bytes, this.offset);
+        this.offset += bytes.length;
+    }
+
     append(value: number | string | any[]) {
         if (Array.isArray(value)) {
             // Iterate over each element in the array and append
@@ -0,0 +1,77 @@
+// Conformance tests against the golden BEVE corpus
+import { describe, test, expect } from "bun:test";
+import * as fs from 'fs';
+import * as path from 'path';
+import { readBeve } from "../src/decoder";
+import { writeBeve } from "../src/encoder";
+import { getWasmModule } from "../src/wasm-loader";
+import {
+    CONFORMANCE_CORPUS,
+    runConformance,
+    formatConformanceReport,
+    ConformanceCodec,
+} from "../src/conformance";
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures/conformance');
+
+function loadFixture(name: string): Uint8Array {
+    return new Uint8Array(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.beve`)));
+}
+
+describe("Conformance - Corpus", () => {
+    test("every fixture has a golden file and every golden file a fixture", () => {
+        const files = fs.readdirSync(FIXTURE_DIR).filter(file => file.endsWith('.beve')).sort();
+        const names = CONFORMANCE_CORPUS.map(fixture => `${fixture.name}.beve`).sort();
+        expect(files).toEqual(names);
+    });
+});
+
+describe("Conformance - TypeScript", () => {
+    test("readBeve/writeBeve pass every fixture", () => {
+        const report = runConformance({ name: 'typescript', decode: readBeve, encode: writeBeve }, loadFixture);
+        console.log(formatConformanceReport(report));
+        expect(report.results.filter(result => !result.passed)).toEqual([]);
+    });
+
+    test("should prefix object keys with their UTF-8 byte length", () => {
+        expect(Array.from(writeBeve({ 'größe': true, '名前': 'x' }))).toEqual(Array.from(loadFixture('object-utf8-keys')));
+    });
+
+    test("should report failures per feature", () => {
+        const broken: ConformanceCodec = {
+            name: 'broken',
+            decode: bytes => typeof readBeve(bytes) === 'string' ? 'wrong' : readBeve(bytes),
+        };
+        const report = runConformance(broken, loadFixture);
+        expect(report.features.string.failed).toBe(4);
+        expect(report.features.integer.failed).toBe(0);
+        expect(formatConformanceReport(report)).toContain('FAIL  string');
+    });
+});
+
+describe("Conformance - WASM", () => {
+    test("reports which features the WASM bridge supports", async () => {
+        const wasm = await getWasmModule();
+        if (!wasm) {
+            console.log('WASM not available, skipping conformance run');
+            return;
+        }
+
+        const unwrap = <T>(result: { data?: T; error?: string }): T => {
+            if (result.error) throw new Error(result.error);
+            return result.data as T;
+        };
+        const report = runConformance({
+            name: 'wasm',
+            decode: bytes => unwrap(wasm.unmarshal(bytes)),
+            encode: value => unwrap(wasm.marshal(value)),
+        }, loadFixture);
+        console.log(formatConformanceReport(report));
+
+        // The Go bridge has gaps (typed arrays, multi-byte sizes); only the
+        // fixed-size scalars are required to pass
+        for (const feature of ['null', 'boolean', 'float']) {
+            expect(report.features[feature].failed).toBe(0);
+        }
+    });
+});
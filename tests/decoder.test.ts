@@ -1,7 +1,30 @@
 // Unit tests for decoder
 import { describe, test, expect } from "bun:test";
-import { readBeve } from "../src/decoder";
-import { writeBeve } from "../src/encoder";
+import { readBeve, readBeveDelimited, readLegacyBeve, decodeAuto } from "../src/decoder";
+import { writeBeve, writeBeveDelimited, encodeTyped, encodeAuto } from "../src/encoder";
+import { Writer } from "../src/writer";
+import {
+    ExtensionID,
+    createExtensionHeader,
+    createLegacyExtensionHeader,
+    encodeMatrix,
+    encodeVariant,
+    encodeInterval,
+    createInterval,
+    contains,
+    overlaps,
+    intersect,
+    durationOf,
+    encodeBeveRegExp,
+    flagsToByte,
+    byteToFlags,
+    isRegExpFlagSupported,
+    lookupField,
+    hasFieldIndex,
+    encodeTypedNestedArray,
+    isTypedNestedArray,
+    decodeColumn,
+} from "../src/extensions";
 
 describe("Decoder - Basic Types", () => {
     test("should decode null", () => {
@@ -122,6 +145,20 @@ describe("Decoder - Arrays", () => {
         expect(decoded).toEqual(arr);
     });
 
+    test("should decode boolean array spanning several bytes", () => {
+        const arr = Array.from({ length: 21 }, (_, i) => i % 3 === 0);
+        const encoded = writeBeve(arr);
+        const decoded = readBeve(encoded);
+        expect(decoded).toEqual(arr);
+    });
+
+    test("should decode signed integer array", () => {
+        const arr = [-40000, 0, 12, 40000];
+        const encoded = writeBeve(arr);
+        const decoded = readBeve(encoded);
+        expect(decoded).toEqual(arr);
+    });
+
     test("should decode nested arrays", () => {
         const arr = [[1, 2], [3, 4], [5, 6]];
         const encoded = writeBeve(arr);
@@ -130,6 +167,90 @@ describe("Decoder - Arrays", () => {
     });
 });
 
+describe("Decoder - Typed Array Modes", () => {
+    test("should return plain arrays by default", () => {
+        const decoded = readBeve(writeBeve([1.5, 2.5, 3.5]));
+        expect(Array.isArray(decoded)).toBe(true);
+    });
+
+    test("should return TypedArray copies in copy mode", () => {
+        const encoded = writeBeve([1.5, 2.5, 3.5]);
+        const decoded = readBeve(encoded, { typedArrays: 'copy' });
+        expect(decoded).toBeInstanceOf(Float64Array);
+        expect(Array.from(decoded)).toEqual([1.5, 2.5, 3.5]);
+        expect(decoded.buffer).not.toBe(encoded.buffer);
+    });
+
+    test("should map element types to TypedArray kinds", () => {
+        expect(readBeve(writeBeve([-1, 1000]), { typedArrays: 'copy' })).toBeInstanceOf(Int16Array);
+        expect(readBeve(writeBeve([1, 70000]), { typedArrays: 'copy' })).toBeInstanceOf(Uint32Array);
+        expect(readBeve(writeBeve([1, 2 ** 40]), { typedArrays: 'copy' })).toBeInstanceOf(BigUint64Array);
+    });
+
+    test("should return zero-copy views in native mode when aligned", () => {
+        // Header and size take 2 bytes; pad so the float64 data starts 8-byte aligned
+        const encoded = writeBeve([1.5, 2.5, 3.5]);
+        const backing = new Uint8Array(6 + encoded.length);
+        backing.set(encoded, 6);
+        const decoded = readBeve(backing.subarray(6), { typedArrays: 'native' });
+        expect(decoded).toBeInstanceOf(Float64Array);
+        expect(decoded.buffer).toBe(backing.buffer);
+        expect(Array.from(decoded)).toEqual([1.5, 2.5, 3.5]);
+    });
+
+    test("should copy in native mode when unaligned", () => {
+        const encoded = writeBeve([1.5, 2.5, 3.5]);
+        const decoded = readBeve(encoded, { typedArrays: 'native' });
+        expect(decoded).toBeInstanceOf(Float64Array);
+        expect(decoded.buffer).not.toBe(encoded.buffer);
+        expect(Array.from(decoded)).toEqual([1.5, 2.5, 3.5]);
+    });
+
+    test("should keep string and boolean arrays as plain arrays", () => {
+        expect(readBeve(writeBeve(["a", "b"]), { typedArrays: 'native' })).toEqual(["a", "b"]);
+        expect(readBeve(writeBeve([true, false]), { typedArrays: 'native' })).toEqual([true, false]);
+    });
+});
+
+describe("Decoder - 64-bit Integers", () => {
+    const id = 18446744073709551000n; // uint64 database ID above 2^53
+
+    test("should round-trip bigint above 2^53", () => {
+        expect(readBeve(writeBeve(id))).toBe(id);
+        expect(readBeve(writeBeve(-(2n ** 62n)))).toBe(-(2n ** 62n));
+    });
+
+    test("should return safe 64-bit values as numbers in auto mode", () => {
+        expect(readBeve(writeBeve(5n))).toBe(5);
+        expect(readBeve(writeBeve(2 ** 40))).toBe(2 ** 40);
+        expect(readBeve(writeBeve(id))).toBe(id);
+    });
+
+    test("should return every 64-bit value as a bigint in bigint mode", () => {
+        expect(readBeve(writeBeve(5n), { int64: 'bigint' })).toBe(5n);
+        expect(readBeve(writeBeve(2 ** 40), { int64: 'bigint' })).toBe(2n ** 40n);
+    });
+
+    test("should honor int64 option", () => {
+        const encoded = writeBeve(5n);
+        expect(readBeve(encoded, { int64: 'bigint' })).toBe(5n);
+        expect(readBeve(writeBeve(id), { int64: 'string' })).toBe("18446744073709551000");
+        expect(readBeve(writeBeve(id), { int64: 'number' })).toBe(Number(id));
+    });
+
+    test("should apply int64 option to 64-bit array elements", () => {
+        const encoded = writeBeve([1n, id]);
+        expect(readBeve(encoded)).toEqual([1, id]);
+        expect(readBeve(encoded, { int64: 'bigint' })).toEqual([1n, id]);
+        expect(readBeve(encoded, { int64: 'string' })).toEqual(["1", "18446744073709551000"]);
+    });
+
+    test("should reject bigint outside 64-bit range", () => {
+        expect(() => writeBeve(2n ** 64n)).toThrow();
+        expect(() => writeBeve([1n, -(2n ** 63n) - 1n])).toThrow();
+    });
+});
+
 describe("Decoder - Objects", () => {
     test("should decode simple object", () => {
         const obj = { name: "test", age: 30 };
@@ -183,7 +304,135 @@ describe("Decoder - Objects", () => {
     });
 });
 
+describe("Decoder - Integer-Keyed Objects", () => {
+    // std::map<uint32_t, std::string>{{1, "a"}, {70000, "b"}} as written by glaze
+    const glazeMap = new Uint8Array([
+        0x53, 2 << 2,
+        1, 0, 0, 0, 0x02, 1 << 2, 0x61,
+        0x70, 0x11, 0x01, 0x00, 0x02, 1 << 2, 0x62,
+    ]);
+
+    test("should decode uint32 keys to a plain object", () => {
+        expect(readBeve(glazeMap)).toEqual({ "1": "a", "70000": "b" });
+    });
+
+    test("should decode uint32 keys to a Map", () => {
+        const decoded = readBeve(glazeMap, { integerKeys: 'map' });
+        expect(decoded).toBeInstanceOf(Map);
+        expect(decoded.get(1)).toBe("a");
+        expect(decoded.get(70000)).toBe("b");
+    });
+
+    test("should encode integer keys with narrowest signed type", () => {
+        const encoded = writeBeve({ "-1": true, "200": false }, { integerKeys: true });
+        expect(encoded[0]).toBe(3 | (1 << 3) | (1 << 5)); // int16 keys
+        const decoded = readBeve(encoded, { integerKeys: 'map' });
+        expect(Array.from(decoded.entries())).toEqual([[200, false], [-1, true]]);
+    });
+
+    test("should keep string keys unless integerKeys is enabled", () => {
+        expect(writeBeve({ "1": "a" })[0]).toBe(3);
+        expect(writeBeve({ "1": "a", "b": 2 }, { integerKeys: true })[0]).toBe(3);
+    });
+
+    test("should round-trip 64-bit keys", () => {
+        const encoded = writeBeve({ "9007199254740991": 1, "1": 2 }, { integerKeys: true });
+        expect(encoded[0]).toBe(3 | (2 << 3) | (3 << 5));
+        expect(readBeve(encoded)).toEqual({ "1": 2, "9007199254740991": 1 });
+    });
+});
+
+describe("Decoder - Map and Set", () => {
+    test("should encode string-keyed Map as object", () => {
+        const map = new Map<string, any>([["a", 1], ["b", [1, 2]]]);
+        expect(readBeve(writeBeve(map))).toEqual({ a: 1, b: [1, 2] });
+    });
+
+    test("should encode numeric-keyed Map as integer-keyed object", () => {
+        const map = new Map<number, string>([[1, "one"], [1000, "thousand"]]);
+        const encoded = writeBeve(map);
+        expect(encoded[0]).toBe(3 | (2 << 3) | (1 << 5)); // uint16 keys
+        expect(readBeve(encoded, { integerKeys: 'map' })).toEqual(map);
+    });
+
+    test("should encode Set as array", () => {
+        expect(readBeve(writeBeve(new Set(["x", "y"])))).toEqual(["x", "y"]);
+        expect(readBeve(writeBeve(new Set([1, "y"])))).toEqual([1, "y"]);
+    });
+
+    test("should reject Map with unsupported keys", () => {
+        expect(() => writeBeve(new Map<any, any>([["a", 1], [2, 2]]))).toThrow();
+        expect(() => writeBeve(new Map([[{}, 1]]))).toThrow();
+    });
+
+    test("should revive every object and array globally", () => {
+        const data = { tags: ["a", "b"], nested: { ids: [1, 2] } };
+        const decoded = readBeve(writeBeve(data), { asMap: true, asSet: true });
+        expect(decoded).toBeInstanceOf(Map);
+        expect(decoded.get("tags")).toEqual(new Set(["a", "b"]));
+        expect(decoded.get("nested").get("ids")).toEqual(new Set([1, 2]));
+    });
+
+    test("should revive only at listed paths", () => {
+        const data = {
+            users: [
+                { name: "a", roles: ["admin", "dev"], prefs: { theme: "dark" } },
+                { name: "b", roles: ["dev"], prefs: { theme: "light" } },
+            ],
+            tags: ["x"],
+        };
+        const decoded = readBeve(writeBeve(data), { asSet: ["users.*.roles"], asMap: ["users.1.prefs"] });
+        expect(decoded.users[0].roles).toEqual(new Set(["admin", "dev"]));
+        expect(decoded.users[1].roles).toEqual(new Set(["dev"]));
+        expect(decoded.users[0].prefs).toEqual({ theme: "dark" });
+        expect(decoded.users[1].prefs).toEqual(new Map([["theme", "light"]]));
+        expect(decoded.tags).toEqual(["x"]);
+    });
+});
+
+describe("Decoder - Dates", () => {
+    const date = new Date("2024-02-29T12:34:56.789Z");
+
+    test("should encode Date as Extension 4 timestamp", () => {
+        const encoded = writeBeve({ created: date });
+        expect(Array.from(encoded.subarray(encoded.length - 13 - 2, encoded.length - 13))).toEqual(Array.from(createExtensionHeader(ExtensionID.TIMESTAMP)));
+    });
+
+    test("should decode timestamp as Date by default", () => {
+        const decoded = readBeve(writeBeve({ created: date }));
+        expect(decoded.created).toBeInstanceOf(Date);
+        expect(decoded.created.getTime()).toBe(date.getTime());
+    });
+
+    test("should honor dates option", () => {
+        const encoded = writeBeve(date);
+        expect(readBeve(encoded, { dates: 'iso' })).toBe("2024-02-29T12:34:56.789Z");
+        expect(readBeve(encoded, { dates: 'timestamp' })).toEqual({
+            seconds: Math.floor(date.getTime() / 1000),
+            nanoseconds: 789_000_000,
+            timezoneOffset: null,
+        });
+    });
+
+    test("should round-trip dates before 1970 and after 2038", () => {
+        for (const d of [new Date("1969-07-20T20:17:40.500Z"), new Date("2100-01-01T00:00:00.001Z")]) {
+            expect(readBeve(writeBeve(d)).getTime()).toBe(d.getTime());
+        }
+    });
+
+    test("should reject invalid Date", () => {
+        expect(() => writeBeve(new Date(NaN))).toThrow();
+    });
+});
+
 describe("Decoder - Binary Data", () => {
+    test("should write Uint8Array as a uint8 typed array without the binary option", () => {
+        const encoded = writeBeve(new Uint8Array([1, 2, 3]), { binary: false });
+        expect(encoded[0]).toBe(0x14);
+        expect(readBeve(encoded)).toEqual([1, 2, 3]);
+        expect(readBeve(encoded, { typedArrays: 'copy' })).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
     test("should decode Uint8Array", () => {
         const data = new Uint8Array([1, 2, 3, 4, 5]);
         const encoded = writeBeve(data);
@@ -238,6 +487,717 @@ describe("Decoder - Round-trip Tests", () => {
     });
 });
 
+describe("Decoder - Safety Limits", () => {
+    test("should reject sizes larger than the remaining input before allocating", () => {
+        // Untyped array claiming 2^60 elements (8-byte compressed size)
+        const header = new Uint8Array(9);
+        header[0] = 5;
+        new DataView(header.buffer).setBigUint64(1, (2n ** 60n << 2n) | 3n, true);
+        expect(() => readBeve(header)).toThrow(/Buffer overflow/);
+
+        // float64 typed array claiming 1000 elements with 8 bytes of data
+        const typed = new Uint8Array([0x64, 0xA1, 0x0F, 0, 0, 0, 0, 0, 0, 0, 0]);
+        expect(() => readBeve(typed)).toThrow(/Buffer overflow/);
+    });
+
+    test("should reject typed object arrays claiming rows without fields", () => {
+        // No flags, no fields, 2^20 rows (4-byte compressed count)
+        const count = new Uint8Array(4);
+        new DataView(count.buffer).setUint32(0, (2 ** 20 << 2) | 2, true);
+        const bytes = new Uint8Array([...createExtensionHeader(ExtensionID.TYPED_ARRAY), 0, 0, ...count]);
+        expect(() => readBeve(bytes)).toThrow(/no fields/);
+
+        const three = new Uint8Array([...createExtensionHeader(ExtensionID.TYPED_ARRAY), 0, 0, 3 << 2]);
+        expect(() => readBeve(three)).toThrow(/no fields/);
+        expect(readBeve(three, { maxArrayLength: 3 })).toEqual([{}, {}, {}]);
+
+        // The encoder writes such rows as a generic array
+        const empty = encodeTyped([{}, {}]);
+        expect(empty[0]).toBe(5);
+        expect(readBeve(empty)).toEqual([{}, {}]);
+    });
+
+    test("should check columnar row counts against the column bytes before allocating rows", () => {
+        const count = new Uint8Array(4);
+        new DataView(count.buffer).setUint32(0, (2 ** 20 << 2) | 2, true);
+        const header = createExtensionHeader(ExtensionID.TYPED_OBJECT_COLUMNS);
+        expect(() => readBeve(new Uint8Array([...header, 0, 0, ...count]))).toThrow(/no fields/);
+        // One field 'a', and no column bytes for its 2^20 rows
+        expect(() => readBeve(new Uint8Array([...header, 0, 1 << 2, 1 << 2, 0x61, ...count]))).toThrow(/Buffer overflow/);
+
+        // Packed boolean columns take a bit per row
+        const flags = Array.from({ length: 1000 }, (_, i) => ({ on: i % 3 === 0 }));
+        expect(readBeve(encodeTyped(flags, { columnar: true }))).toEqual(flags);
+    });
+
+    test("should enforce maxDepth", () => {
+        let deep: any = 1;
+        for (let i = 0; i < 12; i++) {
+            deep = [deep, "x"];
+        }
+        expect(() => readBeve(writeBeve(deep), { maxDepth: 10 })).toThrow(/maxDepth/);
+        expect(() => readBeve(writeBeve(deep), { maxDepth: 12 })).not.toThrow();
+    });
+
+    test("should fail cleanly on pathological nesting by default", () => {
+        const bytes = new Uint8Array(20000 * 2);
+        for (let i = 0; i < 20000; i++) {
+            bytes[i * 2] = 5;
+            bytes[i * 2 + 1] = 1 << 2;
+        }
+        expect(() => readBeve(bytes)).toThrow(/maxDepth/);
+    });
+
+    test("should count extension payloads toward maxDepth", () => {
+        // Variants holding variants: 100 type tags around a null
+        const variants = new Uint8Array(201);
+        for (let i = 0; i < 100; i++) {
+            variants[i * 2] = 0x0E;
+        }
+        expect(() => readBeve(variants, { maxDepth: 64 })).toThrow("Decode limit exceeded: depth 65 > maxDepth 64");
+        expect(readBeve(variants, { maxDepth: 100 })).toBeNull();
+
+        // Typed object arrays whose rows hold typed object arrays
+        let tables: any = 1;
+        for (let i = 0; i < 100; i++) {
+            tables = [{ inner: tables }];
+        }
+        const encoded = encodeTyped(tables);
+        expect(() => readBeve(encoded, { maxDepth: 64 })).toThrow("Decode limit exceeded: depth 65 > maxDepth 64");
+        expect(() => readBeve(encoded, { maxDepth: 100 })).not.toThrow();
+    });
+
+    test("should fail cleanly on pathological extension nesting by default", () => {
+        const variants = new Uint8Array(200001);
+        for (let i = 0; i < 100000; i++) {
+            variants[i * 2] = 0x0E;
+        }
+        expect(() => readBeve(variants)).toThrow(/maxDepth/);
+    });
+
+    test("should enforce per-kind limits", () => {
+        expect(() => readBeve(writeBeve([1, 2, 3]), { maxArrayLength: 2 })).toThrow(/maxArrayLength/);
+        expect(() => readBeve(writeBeve([1, "a", null]), { maxArrayLength: 2 })).toThrow(/maxArrayLength/);
+        expect(() => readBeve(writeBeve({ a: 1, b: 2 }), { maxObjectKeys: 1 })).toThrow(/maxObjectKeys/);
+        expect(() => readBeve(writeBeve("hello"), { maxStringBytes: 4 })).toThrow(/maxStringBytes/);
+        expect(() => readBeve(writeBeve({ hello: 1 }), { maxStringBytes: 4 })).toThrow(/maxStringBytes/);
+        expect(() => readBeve(writeBeve(new Uint8Array(16)), { maxBinaryBytes: 8 })).toThrow(/maxBinaryBytes/);
+    });
+
+    test("should enforce maxTotalAllocations across the whole value", () => {
+        const data = { a: [1, 2, 3], b: "xyz" };
+        expect(() => readBeve(writeBeve(data), { maxTotalAllocations: 8 })).toThrow(/maxTotalAllocations/);
+        expect(readBeve(writeBeve(data), { maxTotalAllocations: 100 })).toEqual(data);
+    });
+});
+
+describe("Decoder - Typed Object Arrays", () => {
+    const rows = [
+        { id: 1, tags: ["a", "b"], meta: { score: 1.5, flags: [true, false] }, when: new Date("2024-01-01T00:00:00Z") },
+        { id: 2, tags: [], meta: { score: -2, flags: [] }, when: null },
+    ];
+
+    test("should decode nested values inside rows", () => {
+        const decoded = decodeAuto(encodeTyped(rows));
+        expect(decoded[0].tags).toEqual(["a", "b"]);
+        expect(decoded[0].meta).toEqual({ score: 1.5, flags: [true, false] });
+        expect(decoded[0].when).toBeInstanceOf(Date);
+        expect(decoded[0].when.getTime()).toBe(rows[0].when!.getTime());
+        expect(decoded[1]).toEqual(rows[1]);
+    });
+
+    test("should decode the same way through readBeve", () => {
+        expect(readBeve(encodeTyped(rows))).toEqual(decodeAuto(encodeTyped(rows)));
+    });
+
+    test("should apply decode options and limits inside rows", () => {
+        const encoded = encodeTyped(rows);
+        const decoded = readBeve(encoded, { dates: "iso", asSet: ["*.tags"] });
+        expect(decoded[0].when).toBe("2024-01-01T00:00:00.000Z");
+        expect(decoded[0].tags).toEqual(new Set(["a", "b"]));
+        expect(() => readBeve(encoded, { maxDepth: 1 })).toThrow(/maxDepth/);
+    });
+
+    test("should decode columnar rows like row-wise ones", () => {
+        const encoded = encodeTyped(rows, { columnar: true });
+        expect(Array.from(encoded.subarray(0, 2))).toEqual(Array.from(createExtensionHeader(ExtensionID.TYPED_OBJECT_COLUMNS)));
+        expect(readBeve(encoded)).toEqual(readBeve(encodeTyped(rows)));
+
+        const decoded = readBeve(encoded, { dates: "iso", asSet: ["*.tags"] });
+        expect(decoded[0].tags).toEqual(new Set(["a", "b"]));
+        expect(decoded[1].when).toBeNull();
+    });
+
+    test("should store numeric columns as typed arrays", () => {
+        const table = Array.from({ length: 1000 }, (_, i) => ({ ts: 1700000000 + i, price: 100.001 + i / 8, volume: i % 50, big: BigInt(i) << 40n }));
+        const columnar = encodeTyped(table, { columnar: true });
+        // No header per value: at least 4 bytes saved per row
+        expect(encodeTyped(table).length - columnar.length).toBeGreaterThan(4 * 1000 - 100);
+        expect(readBeve(columnar)).toEqual(readBeve(encodeTyped(table)));
+        expect(readBeve(columnar, { int64: "bigint" })[3].big).toBe(3n << 40n);
+    });
+
+    test("should decode a single column", () => {
+        const table = Array.from({ length: 10 }, (_, i) => ({ name: `row ${i}`, price: i + 0.5 }));
+        const encoded = encodeAuto(table, { columnar: true });
+        expect(decodeColumn(encoded, "name")).toEqual(table.map(row => row.name));
+        const prices = decodeColumn(encoded, "price", { typedArrays: "copy" });
+        expect(prices).toBeInstanceOf(Float64Array);
+        expect(Array.from(prices!)).toEqual(table.map(row => row.price));
+        expect(decodeColumn(encoded, "missing")).toBeUndefined();
+        expect(() => decodeColumn(encodeTyped(table), "name")).toThrow(/columnar/);
+    });
+
+    test("should keep optional fields absent", () => {
+        const users = [
+            { id: 1, name: "Ada", email: "ada@example.com" },
+            { id: 2, name: "Bob" },
+            { id: 3, email: undefined, nickname: "cee" },
+            { id: 4, name: "Dee", email: "dee@example.com" },
+            { id: 5, name: "Eve", email: "eve@example.com" },
+        ];
+        const expected = users.map(user => Object.fromEntries(Object.entries(user).filter(([, v]) => v !== undefined)));
+
+        for (const encoded of [encodeAuto(users), encodeAuto(users, { columnar: true })]) {
+            expect(encoded[0] & 0b111).toBe(7);
+            const decoded = readBeve(encoded);
+            expect(decoded).toEqual(expected);
+            expect("email" in decoded[1]).toBe(false);
+            expect("email" in decoded[2]).toBe(false);
+        }
+
+        const names = decodeColumn(encodeAuto(users, { columnar: true }), "name")!;
+        expect(names.length).toBe(5);
+        expect(2 in names).toBe(false);
+        expect(names[3]).toBe("Dee");
+    });
+
+    test("should only type arrays of plain objects", () => {
+        const dates = Array.from({ length: 5 }, (_, i) => new Date(i));
+        expect(encodeAuto(dates)[0] & 0b111).toBe(5);
+        expect(readBeve(encodeAuto(dates))[4]).toEqual(new Date(4));
+    });
+
+    test("should dictionary-encode low-cardinality string fields", () => {
+        const statuses = ["ok", "ok", "ok", "error", "timeout"];
+        const events = Array.from({ length: 2000 }, (_, i) => ({
+            id: i,
+            status: statuses[i % 5],
+            country: i % 7 === 0 ? "Deutschland" : "United States",
+            message: `event ${i}`,
+        }));
+
+        for (const columnar of [false, true]) {
+            const encoded = encodeTyped(events, { columnar });
+            const plain = encodeTyped(events, { columnar, dictionaries: false });
+            // One index byte per row instead of ~5 and ~14 bytes of string
+            expect(plain.length - encoded.length).toBeGreaterThan(2000 * 15);
+            expect(readBeve(encoded)).toEqual(events);
+        }
+    });
+
+    test("should keep high-cardinality strings as they are", () => {
+        const rows = Array.from({ length: 100 }, (_, i) => ({ name: `user ${i}`, tag: i % 2 ? "a" : 42 }));
+        expect(encodeTyped(rows)).toEqual(encodeTyped(rows, { dictionaries: false }));
+        expect(readBeve(encodeTyped(rows))).toEqual(rows);
+    });
+
+    test("should decode a dictionary column as strings or indices", () => {
+        const rows = Array.from({ length: 300 }, (_, i) => ({ level: ["info", "warn", "info", "error"][i % 4], n: i }));
+        const encoded = encodeTyped(rows, { columnar: true });
+        expect(decodeColumn(encoded, "level")).toEqual(rows.map(row => row.level));
+
+        const { dictionary, indices } = decodeColumn(encoded, "level", { dictionaries: "indices", typedArrays: "copy" }) as any;
+        // Most frequent first
+        expect(dictionary).toEqual(["info", "warn", "error"]);
+        expect(indices).toBeInstanceOf(Uint8Array);
+        expect(Array.from(indices, (index: number) => dictionary[index])).toEqual(rows.map(row => row.level));
+    });
+
+    test("should dictionary-encode optional string fields", () => {
+        const rows = Array.from({ length: 50 }, (_, i) => (i % 3 ? { id: i, region: i % 2 ? "eu-west" : "us-east" } : { id: i }));
+        for (const encoded of [encodeTyped(rows), encodeTyped(rows, { columnar: true })]) {
+            expect(readBeve(encoded)).toEqual(rows);
+        }
+        const regions = decodeColumn(encodeTyped(rows, { columnar: true }), "region", { dictionaries: "indices" }) as any;
+        expect(0 in regions.indices).toBe(false);
+        expect(regions.dictionary[regions.indices[1]]).toBe("eu-west");
+    });
+
+    test("should reject dictionary indices out of range", () => {
+        const encoded = encodeTyped([{ s: "x" }, { s: "x" }, { s: "x" }]);
+        // Last row's index is the last byte
+        encoded[encoded.length - 1] = 1 << 2;
+        expect(() => readBeve(encoded)).toThrow(/dictionary index 1/);
+    });
+
+    test("should decode tables as columns from either layout", () => {
+        const people = Array.from({ length: 40 }, (_, i) => ({ name: `person ${i}`, age: 20 + i, score: i / 4, active: i % 2 === 0 }));
+        for (const encoded of [encodeTyped(people), encodeTyped(people, { columnar: true })]) {
+            const table = readBeve(encoded, { tables: "columns" });
+            expect(table.fields).toEqual(["active", "age", "name", "score"]);
+            expect(table.length).toBe(40);
+            expect(table.columns.name).toEqual(people.map(p => p.name));
+            expect(table.columns.active).toEqual(people.map(p => p.active));
+            expect(table.columns.age).toBeInstanceOf(Uint8Array);
+            expect(Array.from(table.columns.age)).toEqual(people.map(p => p.age));
+            expect(table.columns.score).toBeInstanceOf(Float64Array);
+            expect(Array.from(table.columns.score)).toEqual(people.map(p => p.score));
+        }
+    });
+
+    test("should keep table columns of optional and dictionary fields", () => {
+        const rows = Array.from({ length: 30 }, (_, i) => (i % 4 ? { n: i, kind: i % 3 ? "a" : "b" } : { kind: "a" }));
+        for (const encoded of [encodeTyped(rows), encodeTyped(rows, { columnar: true })]) {
+            const { columns } = readBeve(encoded, { tables: "columns", dictionaries: "indices" });
+            expect(Array.isArray(columns.n)).toBe(true);
+            expect(0 in columns.n).toBe(false);
+            expect(columns.n[5]).toBe(5);
+            expect(columns.kind.dictionary).toEqual(["a", "b"]);
+            expect(Array.from(columns.kind.indices, (i: number) => columns.kind.dictionary[i])).toEqual(rows.map(row => row.kind));
+        }
+    });
+
+    test("should decode nested tables as columns", () => {
+        const rows = Array.from({ length: 5 }, (_, i) => ({ x: i, y: -i }));
+        const decoded = readBeve(encodeAuto({ points: rows, label: "p" }), { tables: "columns" });
+        expect(decoded.label).toBe("p");
+        expect(decoded.points.columns.y).toBeInstanceOf(Int8Array);
+        expect(decoded.points.length).toBe(5);
+    });
+
+    test("should read legacy payloads without the flags byte", () => {
+        const current = encodeTyped([{ a: 1 }, { a: 2 }]);
+        const legacy = new Uint8Array(current.length - 2);
+        legacy[0] = createLegacyExtensionHeader(ExtensionID.TYPED_ARRAY);
+        legacy.set(current.subarray(3), 1);
+        expect(readLegacyBeve(legacy)).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+});
+
+describe("Decoder - Intervals", () => {
+    const at = (iso: string) => new Date(iso);
+    const morning = createInterval(at("2025-03-01T09:00:00Z"), at("2025-03-01T12:00:00Z"));
+    const noon = createInterval(at("2025-03-01T11:30:00Z"), at("2025-03-01T13:00:00Z"));
+
+    test("should round-trip intervals with nanoseconds and per-endpoint timezones", () => {
+        const interval = {
+            start: { seconds: 1740819600, nanoseconds: 123456789, timezoneOffset: -300 },
+            end: { seconds: 1740830400, nanoseconds: 5, timezoneOffset: 60 },
+        };
+        const writer = new Writer();
+        encodeInterval(interval, writer);
+        expect(readBeve(writer.buffer.slice(0, writer.offset))).toEqual(interval);
+    });
+
+    test("should round-trip open-ended intervals", () => {
+        const since = { start: at("2025-01-01T00:00:00Z"), end: null };
+        const decoded = readBeve(writeBeve([since, { start: null, end: null }], { intervals: true }));
+        expect(decoded[0]).toEqual({ start: { seconds: 1735689600, nanoseconds: 0, timezoneOffset: null }, end: null });
+        expect(decoded[1]).toEqual({ start: null, end: null });
+    });
+
+    test("should only write intervals at selected paths", () => {
+        const data = { booking: { start: at("2025-03-01T09:00:00Z"), end: at("2025-03-01T10:00:00Z") } };
+        expect(readBeve(writeBeve(data, { intervals: ["booking"] })).booking.start.seconds).toBe(1740819600);
+        expect(readBeve(writeBeve(data)).booking.start).toBeInstanceOf(Date);
+    });
+
+    test("should reject intervals that end before they start", () => {
+        expect(() => encodeInterval(createInterval(at("2025-03-02T00:00:00Z"), at("2025-03-01T00:00:00Z")), new Writer()))
+            .toThrow(/end is before start/);
+    });
+
+    test("should test containment as [start, end)", () => {
+        expect(contains(morning, at("2025-03-01T09:00:00Z"))).toBe(true);
+        expect(contains(morning, at("2025-03-01T12:00:00Z"))).toBe(false);
+        expect(contains({ start: null, end: morning.end }, at("1990-01-01T00:00:00Z"))).toBe(true);
+    });
+
+    test("should detect overlaps and intersect", () => {
+        const afternoon = createInterval(at("2025-03-01T12:00:00Z"), null);
+        expect(overlaps(morning, noon)).toBe(true);
+        expect(overlaps(morning, afternoon)).toBe(false);
+        expect(intersect(morning, afternoon)).toBeNull();
+        expect(intersect(morning, noon)).toEqual({ start: noon.start, end: morning.end });
+        expect(intersect(noon, afternoon)).toEqual({ start: afternoon.start, end: noon.end });
+    });
+
+    test("should compute durations", () => {
+        expect(durationOf(noon)).toEqual({ seconds: 5400, nanoseconds: 0 });
+        const precise = { start: { seconds: 10, nanoseconds: 900_000_000 }, end: { seconds: 12, nanoseconds: 100_000_000 } };
+        expect(durationOf(precise)).toEqual({ seconds: 1, nanoseconds: 200_000_000 });
+        expect(() => durationOf({ start: null, end: noon.end })).toThrow(/open-ended/);
+    });
+});
+
+describe("Decoder - RegExp", () => {
+    test("should round-trip RegExp values with their flags", () => {
+        const patterns = [/^error: (?<code>\d+)$/, /a+b/gimsuy, /x/d];
+        if (isRegExpFlagSupported('v')) {
+            patterns.push(new RegExp('[\\p{L}--[a-z]]', 'v'));
+        }
+        for (const regexp of patterns) {
+            const decoded = readBeve(writeBeve(regexp));
+            expect(decoded).toBeInstanceOf(RegExp);
+            expect(decoded.source).toBe(regexp.source);
+            expect(decoded.flags).toBe(regexp.flags);
+        }
+    });
+
+    test("should round-trip RegExp values inside config payloads", () => {
+        const config = { name: "filters", rules: [/^ERR/i, /timeout$/m] };
+        const decoded = readBeve(writeBeve(config));
+        expect(decoded.rules[0].test("err: disk")).toBe(true);
+        expect(decoded.rules[1].flags).toBe("m");
+    });
+
+    test("should map flags to the flags byte", () => {
+        expect(flagsToByte("gi")).toBe(0x11);
+        expect(flagsToByte("y")).toBe(0x20);
+        expect(flagsToByte("v")).toBe(0x40);
+        expect(byteToFlags(0xFF)).toBe("dgimsuvy");
+    });
+
+    test("should fail clearly on patterns the runtime rejects", () => {
+        const writer = new Writer();
+        encodeBeveRegExp({ pattern: "(", flags: 0 }, writer);
+        expect(() => readBeve(writer.buffer.slice(0, writer.offset))).toThrow(/Cannot decode RegExp \/\(\//);
+    });
+
+    test("should count patterns toward the string limits", () => {
+        const encoded = writeBeve(/^(error|warning): .+$/);
+        expect(() => readBeve(encoded, { maxStringBytes: 8 })).toThrow(/maxStringBytes/);
+        expect(() => readBeve(encoded, { maxTotalAllocations: 8 })).toThrow(/maxTotalAllocations/);
+        expect(readBeve(encoded, { maxStringBytes: 32 }).source).toBe("^(error|warning): .+$");
+    });
+});
+
+describe("Decoder - Extension Layout", () => {
+    const bytesOf = (write: (writer: Writer) => void) => {
+        const writer = new Writer();
+        write(writer);
+        return writer.buffer.slice(0, writer.offset);
+    };
+
+    test("should decode spec type tags", () => {
+        // glaze std::variant<int, std::string> holding "x"
+        const encoded = new Uint8Array([0x0E, 0x04, 0x02, 0x04, 0x78]);
+        expect(readBeve(encoded)).toBe("x");
+        expect(readBeve(encoded, { variants: 'tagged' })).toEqual({ index: 1, value: "x" });
+        expect(readBeve(bytesOf(writer => encodeVariant({ index: 3, value: [1, 2] }, writer)), { variants: 'tagged' }))
+            .toEqual({ index: 3, value: [1, 2] });
+    });
+
+    test("should decode spec matrices", () => {
+        const encoded = bytesOf(writer => encodeMatrix({ layout: 'layout_left', extents: [2, 3], value: [1, 2, 3, 4, 5, 6] }, writer));
+        expect(encoded[0]).toBe(0x16);
+        expect(readBeve(encoded)).toEqual({ layout: 'layout_left', extents: [2, 3], value: [1, 2, 3, 4, 5, 6] });
+        expect(readBeve(encoded, { typedArrays: 'copy' }).value).toBeInstanceOf(Float64Array);
+    });
+
+    test("should keep matrix extents and elements as arrays under asSet", () => {
+        const encoded = bytesOf(writer => encodeMatrix({ layout: 'layout_right', extents: [2, 2], value: [1, 1, 2, 2] }, writer));
+        expect(readBeve(encoded, { asSet: true })).toEqual({ layout: 'layout_right', extents: [2, 2], value: [1, 1, 2, 2] });
+        expect(readBeve(writeBeve([[1, 1]]), { asSet: true })).toEqual(new Set([new Set([1])]));
+    });
+
+    test("should read and write delimited streams", () => {
+        const values = [{ a: 1 }, "two", [3, 4]];
+        const encoded = writeBeveDelimited(values);
+        expect(readBeveDelimited(encoded)).toEqual(values);
+        expect(() => readBeve(new Uint8Array([0x06]))).toThrow(/delimiter/);
+    });
+
+    test("should write custom extensions with a type 7 header", () => {
+        const encoded = writeBeve(new Uint8Array([1, 2, 3]));
+        expect(Array.from(encoded.subarray(0, 2))).toEqual(Array.from(createExtensionHeader(ExtensionID.BINARY)));
+        expect(encoded[0] & 0b111).toBe(7);
+        expect(readBeve(encoded)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test("should read the legacy layout", () => {
+        expect(readLegacyBeve(new Uint8Array([0x06, 0x0C, 1, 2, 3]))).toEqual(new Uint8Array([1, 2, 3]));
+
+        const date = new Date("2024-05-01T12:00:00Z");
+        const current = writeBeve(date);
+        const legacy = new Uint8Array(current.length - 1);
+        legacy[0] = createLegacyExtensionHeader(ExtensionID.TIMESTAMP);
+        legacy.set(current.subarray(2), 1);
+        expect(readLegacyBeve(legacy).getTime()).toBe(date.getTime());
+        expect(() => readBeve(legacy)).toThrow(/spec extension/);
+    });
+});
+
+describe("Decoder - Typed Nested Arrays", () => {
+    const batches = [[101, 2023, 2003, 102], [101, 102], [], [101, 7592, 999, 2088, 102]];
+
+    test("should round-trip ragged arrays", () => {
+        const encoded = writeBeve(batches, { typedNestedArrays: true });
+        expect(Array.from(encoded.subarray(0, 2))).toEqual(Array.from(createExtensionHeader(ExtensionID.TYPED_NESTED_ARRAY)));
+        expect(readBeve(encoded)).toEqual(batches);
+
+        // One header byte less per inner array, for a 2-byte extension header
+        const triangles = Array.from({ length: 100 }, (_, i) => [i, i + 1, i + 2]);
+        expect(writeBeve(triangles, { typedNestedArrays: true }).length).toBe(writeBeve(triangles).length - 98);
+    });
+
+    test("should decode to offsets and values", () => {
+        const encoded = writeBeve(batches, { typedNestedArrays: true });
+        const { offsets, values } = readBeve(encoded, { nestedArrays: "offsets" });
+        expect(offsets).toEqual(Uint32Array.of(0, 4, 6, 6, 11));
+        expect(values).toBeInstanceOf(Uint16Array);
+        expect(Array.from(values.subarray(offsets[3], offsets[4]))).toEqual(batches[3]);
+    });
+
+    test("should decode inner arrays as TypedArrays", () => {
+        const encoded = writeBeve({ rings: [[0.5, 1.5, 2.5], [-1.25]] }, { typedNestedArrays: true });
+        const decoded = readBeve(encoded, { typedArrays: "copy" });
+        expect(decoded.rings[0]).toBeInstanceOf(Float64Array);
+        expect(Array.from(decoded.rings[1])).toEqual([-1.25]);
+        expect(decoded.rings[0].buffer).toBe(decoded.rings[1].buffer);
+    });
+
+    test("should honour forceFloat32 and 64-bit elements", () => {
+        const rings = writeBeve([[0.5, 1.5], [2.5]], { typedNestedArrays: true, forceFloat32: true });
+        expect(readBeve(rings, { nestedArrays: "offsets" }).values).toBeInstanceOf(Float32Array);
+
+        const big = [[1n, -(2n ** 63n)], [2n ** 62n]];
+        expect(readBeve(writeBeve(big, { typedNestedArrays: true }), { int64: "bigint" })).toEqual(big);
+    });
+
+    test("should encode TypedArrays and offsets pairs", () => {
+        const writer = new Writer();
+        encodeTypedNestedArray([Int16Array.of(-1, 2), Int16Array.of(3)], writer);
+        expect(readBeve(writer.buffer.slice(0, writer.offset))).toEqual([[-1, 2], [3]]);
+
+        const pair = new Writer();
+        encodeTypedNestedArray({ offsets: Uint32Array.of(0, 1, 3), values: Float32Array.of(1, 2, 3) }, pair);
+        expect(readBeve(pair.buffer.slice(0, pair.offset))).toEqual([[1], [2, 3]]);
+
+        expect(() => encodeTypedNestedArray({ offsets: Uint32Array.of(0, 4), values: Float32Array.of(1) }, new Writer())).toThrow(/offsets/);
+    });
+
+    test("should only apply to arrays of numeric arrays", () => {
+        expect(isTypedNestedArray([[1, 2], [3]])).toBe(true);
+        expect(isTypedNestedArray([[1, 2], ["a"]])).toBe(false);
+        expect(isTypedNestedArray([[1n], [2]])).toBe(false);
+        expect(isTypedNestedArray([[1], 2])).toBe(false);
+        expect(isTypedNestedArray([])).toBe(false);
+
+        const mixed = [["a", "b"], [1]];
+        expect(writeBeve(mixed, { typedNestedArrays: true })).toEqual(writeBeve(mixed));
+    });
+
+    test("should enforce maxArrayLength on inner arrays", () => {
+        const encoded = writeBeve([[1, 2, 3], [4]], { typedNestedArrays: true });
+        expect(() => readBeve(encoded, { maxArrayLength: 2 })).toThrow(/maxArrayLength/);
+        expect(() => readBeve(encoded.slice(0, encoded.length - 1))).toThrow(/Buffer overflow/);
+    });
+});
+
+describe("Decoder - Field Index", () => {
+    const config: Record<string, any> = {};
+    for (let i = 0; i < 2000; i++) {
+        config[`key_${i}`] = i % 3 === 0 ? `value ${i}` : i;
+    }
+    config.database = { host: "db.local", pool: { min: 2, max: 16 } };
+    config["ключ"] = "utf-8 key";
+
+    test("should round-trip indexed objects", () => {
+        const encoded = writeBeve(config, { useFieldIndex: true });
+        expect(hasFieldIndex(encoded)).toBe(true);
+        expect(readBeve(encoded)).toEqual(config);
+    });
+
+    test("should only index objects at or above the threshold", () => {
+        expect(hasFieldIndex(writeBeve({ a: 1, b: 2 }, { useFieldIndex: true }))).toBe(false);
+        expect(hasFieldIndex(writeBeve({ a: 1, b: 2 }, { useFieldIndex: true, fieldIndexThreshold: 2 }))).toBe(true);
+        expect(hasFieldIndex(writeBeve(config))).toBe(false);
+    });
+
+    test("should look up fields through the index", () => {
+        const encoded = writeBeve(config, { useFieldIndex: true, fieldIndexThreshold: 2 });
+        expect(lookupField(encoded, "key_1999")).toBe(1999);
+        expect(lookupField(encoded, "key_3")).toBe("value 3");
+        expect(lookupField(encoded, "ключ")).toBe("utf-8 key");
+        expect(lookupField(encoded, "database.pool.max")).toBe(16);
+        expect(lookupField(encoded, ["database", "host"])).toBe("db.local");
+        expect(lookupField(encoded, "database")).toEqual(config.database);
+        expect(lookupField(encoded, "missing")).toBeUndefined();
+        expect(lookupField(encoded, "database.pool.missing")).toBeUndefined();
+    });
+
+    test("should look up fields in plain encodings", () => {
+        const encoded = writeBeve(config);
+        expect(lookupField(encoded, "key_1501")).toBe(1501);
+        expect(lookupField(encoded, "database.pool.min")).toBe(2);
+        expect(lookupField(encoded, "missing")).toBeUndefined();
+        expect(lookupField(writeBeve({ list: [1, 2, 3] }), "list.2")).toBe(3);
+    });
+
+    test("should not decode siblings of indexed fields", () => {
+        const encoded = writeBeve(config, { useFieldIndex: true });
+        // Corrupt the first entry's value; only a scan would trip over it
+        const body = encoded.length - writeBeve(config).length;
+        const corrupted = encoded.slice();
+        const firstValue = body + 1 + 2 + 1 + "key_0".length;
+        corrupted[firstValue] = 0xFF;
+        expect(() => readBeve(corrupted)).toThrow();
+        expect(lookupField(corrupted, "key_1999")).toBe(1999);
+    });
+
+    test("should index generic arrays", () => {
+        const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, tags: i % 2 ? ["odd"] : null }));
+        const encoded = writeBeve({ rows }, { indexArrays: true, fieldIndexThreshold: 50 });
+        expect(readBeve(encoded)).toEqual({ rows });
+        expect(lookupField(encoded, "rows.73.id")).toBe(73);
+        expect(lookupField(encoded, ["rows", 73, "tags", 0])).toBe("odd");
+        expect(lookupField(encoded, "rows.100")).toBeUndefined();
+        expect(lookupField(encoded, "rows.x")).toBeUndefined();
+    });
+
+    test("should step into values without an in-place layout", () => {
+        const encoded = writeBeve({ scores: [1, 2, 3], when: new Map([["a", 1]]) }, { useFieldIndex: true, fieldIndexThreshold: 1 });
+        expect(lookupField(encoded, "scores.1")).toBe(2);
+        expect(lookupField(encoded, "when.a")).toBe(1);
+    });
+
+    test("should reject a truncated index", () => {
+        const encoded = writeBeve(config, { useFieldIndex: true });
+        expect(() => readBeve(encoded.slice(0, 100))).toThrow(/Buffer overflow/);
+    });
+});
+
+describe("Decoder - Reviver", () => {
+    const order = {
+        id: 7,
+        placed: "2024-03-01T12:00:00.000Z",
+        lines: [{ sku: "A-1", qty: 2 }, { sku: "B-2", qty: 1 }],
+        tags: ["gift", "rush"],
+        flags: [true, false],
+    };
+
+    test("should call the reviver with JSON.parse's keys, values and holders, in JSON.parse's order", () => {
+        const calls = (record: any[][]) => function (this: any, key: string, value: any) {
+            record.push([this, key, value]);
+            return value;
+        };
+        const beveCalls: any[][] = [];
+        const jsonCalls: any[][] = [];
+        readBeve(writeBeve(order), { reviver: calls(beveCalls) });
+        JSON.parse(JSON.stringify(order), calls(jsonCalls));
+
+        const entries = (record: any[][]) => record.map(([, key, value]) => [key, value]);
+        expect(entries(beveCalls)).toEqual(entries(jsonCalls));
+
+        const root = beveCalls[beveCalls.length - 1];
+        expect(root[0]).toEqual({ "": order });
+        expect(root[1]).toBe("");
+        const sku = beveCalls.find(([, key, value]) => key === "sku" && value === "B-2")!;
+        const line = beveCalls.find(([, key, value]) => key === "1" && value.sku === "B-2")!;
+        expect(line[0]).toBe(root[2].lines);
+        expect(sku[0]).toBe(line[2]);
+        expect(beveCalls.indexOf(sku)).toBeLessThan(beveCalls.indexOf(line));
+    });
+
+    test("should revive each entry right after it is read", () => {
+        const value = { a: [1, { b: 2 }], c: { d: "x" } };
+        const keys = (parse: (reviver: (key: string, value: any) => any) => any) => {
+            const seen: string[] = [];
+            parse((key, value) => (seen.push(key), value));
+            return seen;
+        };
+        const expected = keys(reviver => JSON.parse(JSON.stringify(value), reviver));
+        expect(expected).toEqual(["0", "b", "1", "a", "d", "c", ""]);
+        expect(keys(reviver => readBeve(writeBeve(value), { reviver }))).toEqual(expected);
+
+        // Typed object arrays store fields sorted, so rows keep that key order
+        const rows = [{ at: { x: 0 }, id: 1 }, { at: { x: 1 }, id: 2 }];
+        expect(keys(reviver => readBeve(encodeTyped(rows), { reviver })))
+            .toEqual(keys(reviver => JSON.parse(JSON.stringify(rows), reviver)));
+    });
+
+    test("should only hold the entries read so far, unlike JSON.parse", () => {
+        const holders = (parse: (reviver: (this: any, key: string, value: any) => any) => any) => {
+            const seen: Record<string, string[]> = {};
+            parse(function (this: any, key, value) {
+                seen[key] = Object.keys(this);
+                return value;
+            });
+            return seen;
+        };
+        // A generic array: typed arrays are read whole, then revived
+        const value = { a: 1, b: [2, "x"] };
+        expect(holders(reviver => JSON.parse(JSON.stringify(value), reviver)))
+            .toEqual({ a: ["a", "b"], 0: ["0", "1"], 1: ["0", "1"], b: ["a", "b"], "": [""] });
+        expect(holders(reviver => readBeve(writeBeve(value), { reviver })))
+            .toEqual({ a: ["a"], 0: ["0"], 1: ["0", "1"], b: ["a", "b"], "": [""] });
+    });
+
+    test("should return what JSON.parse would, deleting undefined properties", () => {
+        const reviver = (key: string, value: any) => {
+            if (key === "placed") return new Date(value);
+            if (key === "qty") return undefined;
+            if (key === "1" && value === "rush") return undefined;
+            return value;
+        };
+        const expected = JSON.parse(JSON.stringify(order), reviver);
+        const decoded = readBeve(writeBeve(order), { reviver });
+        expect(decoded).toEqual(expected);
+        expect(decoded.placed).toBeInstanceOf(Date);
+        expect(1 in decoded.tags).toBe(false);
+    });
+
+    test("should revive typed object array rows", () => {
+        const readings = Array.from({ length: 6 }, (_, i) => ({ sensor: `s${i % 2}`, celsius: 20 + i }));
+        const reviver = (key: string, value: any) => key === "celsius" ? value + 273 : value;
+        const expected = JSON.parse(JSON.stringify(readings), reviver);
+        expect(readBeve(encodeTyped(readings), { reviver })).toEqual(expected);
+        expect(readBeve(encodeTyped(readings, { columnar: true }), { reviver })).toEqual(expected);
+    });
+
+    test("should revive columnar rows once, under their field keys", () => {
+        const rows = [{ n: 1, on: true, tag: "a" }, { n: 2, on: false, tag: "b" }, { n: 3, on: true, tag: "c" }];
+        const revive = (record: string[]) => (key: string, value: any) => (record.push(key), typeof value === "number" ? value * 2 : value);
+        const beveKeys: string[] = [];
+        const jsonKeys: string[] = [];
+        const decoded = readBeve(encodeTyped(rows, { columnar: true, dictionaries: false }), { reviver: revive(beveKeys) });
+        expect(decoded).toEqual(JSON.parse(JSON.stringify(rows), revive(jsonKeys)));
+        expect(decoded.map((row: any) => row.n)).toEqual([2, 4, 6]);
+        expect(beveKeys).toEqual(jsonKeys);
+    });
+
+    test("should revive before asMap and asSet conversion", () => {
+        const decoded = readBeve(writeBeve({ ids: [1, 2, 3], meta: { a: 1 } }), {
+            asMap: ["meta"],
+            asSet: ["ids"],
+            reviver: (key, value) => typeof value === "number" ? value * 10 : value,
+        });
+        expect(decoded.ids).toEqual(new Set([10, 20, 30]));
+        expect(decoded.meta).toEqual(new Map([["a", 10]]));
+    });
+
+    test("should revive each delimited value as a root", () => {
+        const keys: string[] = [];
+        const values = readBeveDelimited(writeBeveDelimited([1, { a: 2 }]), {
+            reviver: (key, value) => (keys.push(key), value),
+        });
+        expect(values).toEqual([1, { a: 2 }]);
+        expect(keys).toEqual(["", "a", ""]);
+    });
+
+    test("should leave TypedArrays whole", () => {
+        const seen: string[] = [];
+        const decoded = readBeve(writeBeve({ samples: new Float32Array([1, 2]) }), {
+            typedArrays: "copy",
+            reviver: (key, value) => (seen.push(key), value),
+        });
+        expect(decoded.samples).toBeInstanceOf(Float32Array);
+        expect(seen).toEqual(["samples", ""]);
+    });
+});
+
 describe("Decoder - Error Handling", () => {
     test("should throw on invalid buffer", () => {
         expect(() => {
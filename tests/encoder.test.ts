@@ -1,6 +1,22 @@
 // Unit tests for encoder
-import { describe, test, expect } from "bun:test";
-import { writeBeve } from "../src/encoder";
+import { describe, test, expect, afterEach } from "bun:test";
+import { writeBeve, encodeAuto, encodeAutoWithStats, write_child_internal } from "../src/encoder";
+import { readBeve } from "../src/decoder";
+import { Writer } from "../src/writer";
+import {
+    encodeComplex,
+    encodeComplexArray,
+    registerExtension,
+    unregisterExtension,
+    getExtension,
+    ExtensionID,
+    BEVE_ENCODE,
+    registerClass,
+    unregisterClass,
+    getClassId,
+} from "../src/extensions";
+import { readDouble, readBigInt64 } from "../src/utils";
+import { read_child_internal } from "../src/decoder";
 
 describe("Encoder - Basic Types", () => {
     test("should encode null", () => {
@@ -103,6 +119,125 @@ describe("Encoder - Arrays", () => {
     });
 });
 
+describe("Encoder - Typed Arrays", () => {
+    test("should pick narrowest unsigned width", () => {
+        expect(writeBeve([1, 2, 255])[0]).toBe(4 | (2 << 3) | (0 << 5)); // uint8
+        expect(writeBeve([1, 256])[0]).toBe(4 | (2 << 3) | (1 << 5)); // uint16
+        expect(writeBeve([1, 70000])[0]).toBe(4 | (2 << 3) | (2 << 5)); // uint32
+        expect(writeBeve([1, 2 ** 40])[0]).toBe(4 | (2 << 3) | (3 << 5)); // uint64
+    });
+
+    test("should pick narrowest signed width", () => {
+        expect(writeBeve([-1, 127])[0]).toBe(4 | (1 << 3) | (0 << 5)); // int8
+        expect(writeBeve([-1, 128])[0]).toBe(4 | (1 << 3) | (1 << 5)); // int16
+        expect(writeBeve([-40000, 1])[0]).toBe(4 | (1 << 3) | (2 << 5)); // int32
+        expect(writeBeve([-(2 ** 40), 1])[0]).toBe(4 | (1 << 3) | (3 << 5)); // int64
+    });
+
+    test("should write raw element data without per-element headers", () => {
+        const result = writeBeve([1, 2, 3]);
+        expect(Array.from(result)).toEqual([0x14, 3 << 2, 1, 2, 3]);
+    });
+
+    test("should encode fractional numbers as float64 array", () => {
+        const result = writeBeve([1, 2.5, NaN]);
+        expect(result[0]).toBe(4 | (0 << 3) | (3 << 5));
+        expect(result.length).toBe(2 + 3 * 8);
+    });
+
+    test("should encode string array as typed string array", () => {
+        const result = writeBeve(["a", "bc"]);
+        expect(Array.from(result)).toEqual([0x3C, 2 << 2, 1 << 2, 0x61, 2 << 2, 0x62, 0x63]);
+    });
+
+    test("should pack boolean array into bits", () => {
+        const result = writeBeve([true, false, true, true, false, false, false, false, true]);
+        expect(Array.from(result)).toEqual([0x1C, 9 << 2, 0b10110000, 0b10000000]);
+    });
+
+    test("should fall back to untyped array for sparse arrays", () => {
+        const result = writeBeve([1, , 3]);
+        expect(result[0]).toBe(5);
+    });
+});
+
+describe("Encoder - JavaScript TypedArrays", () => {
+    test("should encode Float32Array as float32 typed array", () => {
+        const result = writeBeve(new Float32Array([1.5, -2.25]));
+        expect(result[0]).toBe(4 | (0 << 3) | (2 << 5));
+        expect(result.length).toBe(2 + 2 * 4);
+    });
+
+    test("should encode signed and unsigned integer kinds", () => {
+        expect(writeBeve(new Int8Array([1]))[0]).toBe(4 | (1 << 3) | (0 << 5));
+        expect(writeBeve(new Int16Array([1]))[0]).toBe(4 | (1 << 3) | (1 << 5));
+        expect(writeBeve(new Uint32Array([1]))[0]).toBe(4 | (2 << 3) | (2 << 5));
+        expect(writeBeve(new BigInt64Array([1n]))[0]).toBe(4 | (1 << 3) | (3 << 5));
+        expect(writeBeve(new BigUint64Array([1n]))[0]).toBe(4 | (2 << 3) | (3 << 5));
+        expect(writeBeve(new Uint8ClampedArray([1]))[0]).toBe(4 | (2 << 3) | (0 << 5));
+    });
+
+    test("should encode only the viewed range of a subarray", () => {
+        const source = new Int16Array([10, 20, 30, 40]);
+        const decoded = readBeve(writeBeve(source.subarray(1, 3)), { typedArrays: 'copy' });
+        expect(decoded).toBeInstanceOf(Int16Array);
+        expect(Array.from(decoded)).toEqual([20, 30]);
+    });
+
+    test("should encode DataView and ArrayBuffer as uint8 typed arrays", () => {
+        const bytes = new Uint8Array([1, 2, 3, 4]);
+        expect(Array.from(writeBeve(new DataView(bytes.buffer, 1, 2)))).toEqual([0x14, 2 << 2, 2, 3]);
+        expect(Array.from(writeBeve(bytes.buffer))).toEqual([0x14, 4 << 2, 1, 2, 3, 4]);
+    });
+
+    test("should round-trip BigInt64Array", () => {
+        const source = new BigInt64Array([-(2n ** 62n), 0n, 2n ** 62n]);
+        const decoded = readBeve(writeBeve(source), { typedArrays: 'copy' });
+        expect(decoded).toBeInstanceOf(BigInt64Array);
+        expect(Array.from(decoded)).toEqual(Array.from(source));
+    });
+});
+
+describe("Encoder - Float32 Selection", () => {
+    const FLOAT32 = 1 | (0 << 3) | (2 << 5);
+    const FLOAT64 = 1 | (0 << 3) | (3 << 5);
+
+    test("should write float64 by default", () => {
+        expect(writeBeve(0.5)[0]).toBe(FLOAT64);
+    });
+
+    test("should write exact float32 values as float32 in lossless mode", () => {
+        expect(writeBeve(0.5, { floatPrecision: 'lossless' })[0]).toBe(FLOAT32);
+        expect(writeBeve(0.1, { floatPrecision: 'lossless' })[0]).toBe(FLOAT64);
+        expect(readBeve(writeBeve(-1.25, { floatPrecision: 'lossless' }))).toBe(-1.25);
+    });
+
+    test("should use float32 arrays in lossless mode only when every element is exact", () => {
+        const exact = writeBeve([0.5, 1.25, Math.fround(0.1)], { floatPrecision: 'lossless' });
+        expect(exact[0]).toBe(4 | (0 << 3) | (2 << 5));
+        expect(readBeve(exact)).toEqual([0.5, 1.25, Math.fround(0.1)]);
+
+        const inexact = writeBeve([0.5, 0.1], { floatPrecision: 'lossless' });
+        expect(inexact[0]).toBe(4 | (0 << 3) | (3 << 5));
+    });
+
+    test("should force float32 for listed paths and everything below them", () => {
+        const data = { sensors: [{ samples: [0.1, 0.2] }], reference: 0.1 };
+        const decoded = readBeve(writeBeve(data, { forceFloat32: ["sensors.*.samples"] }));
+        expect(decoded.sensors[0].samples).toEqual([Math.fround(0.1), Math.fround(0.2)]);
+        expect(decoded.reference).toBe(0.1);
+
+        const all = readBeve(writeBeve(data, { forceFloat32: ["sensors"] }));
+        expect(all.sensors[0].samples).toEqual([Math.fround(0.1), Math.fround(0.2)]);
+    });
+
+    test("should force float32 everywhere", () => {
+        expect(writeBeve(0.1, { forceFloat32: true })[0]).toBe(FLOAT32);
+        // Integers keep their integer encoding
+        expect(writeBeve(3, { forceFloat32: true })[0]).toBe(1 | (2 << 3));
+    });
+});
+
 describe("Encoder - Objects", () => {
     test("should encode simple object", () => {
         const obj = { name: "test", age: 30 };
@@ -175,6 +310,367 @@ describe("Encoder - Binary Data", () => {
     });
 });
 
+describe("Encoder - Complex Numbers", () => {
+    const bytesOf = (write: (writer: Writer) => void) => {
+        const writer = new Writer();
+        write(writer);
+        return writer.buffer.slice(0, writer.offset);
+    };
+
+    test("should encode a complex number with the spec header", () => {
+        const encoded = bytesOf(writer => encodeComplex({ re: 1, im: -0.5 }, writer));
+        expect(Array.from(encoded.subarray(0, 2))).toEqual([0x1E, 0x60]);
+        expect(encoded.length).toBe(2 + 16);
+        expect(readBeve(encoded)).toEqual({ re: 1, im: -0.5 });
+    });
+
+    test("should encode complex arrays in every width", () => {
+        const values = [{ re: 1, im: -2 }, { re: 3, im: 4 }];
+        for (const type of ['float32', 'float64', 'int8', 'int16', 'int32', 'int64', 'uint16', 'uint64'] as const) {
+            const signed = type.startsWith('u') ? values.map(v => ({ re: v.re, im: Math.abs(v.im) })) : values;
+            expect(readBeve(bytesOf(writer => encodeComplexArray(signed, writer, type)))).toEqual(signed);
+        }
+    });
+
+    test("should take interleaved TypedArrays as they are", () => {
+        const fft = new Float32Array([1, 0, 0.5, -0.5]);
+        const encoded = bytesOf(writer => encodeComplexArray(fft, writer));
+        expect(encoded[1]).toBe(1 | (2 << 5));
+        expect(readBeve(encoded)).toEqual([{ re: 1, im: 0 }, { re: 0.5, im: -0.5 }]);
+        const interleaved = readBeve(encoded, { complex: 'interleaved' });
+        expect(interleaved).toBeInstanceOf(Float64Array);
+        expect(Array.from(interleaved)).toEqual([1, 0, 0.5, -0.5]);
+        expect(() => bytesOf(writer => encodeComplexArray(new Float64Array(3), writer))).toThrow(/even length/);
+    });
+
+    test("should write { re, im } values as complex only when asked", () => {
+        const data = { peak: { re: 2, im: 0.25 }, spectrum: [{ re: 1, im: 1 }, { re: 0, im: -1 }], label: "fft" };
+        expect(readBeve(writeBeve(data, { complex: true }))).toEqual(data);
+        expect(readBeve(writeBeve(data, { complex: true }), { complex: 'interleaved' }).spectrum).toBeInstanceOf(Float64Array);
+        expect(readBeve(writeBeve(data), { complex: 'interleaved' })).toEqual(data);
+    });
+
+    test("should write TypedArrays at complex paths as interleaved arrays", () => {
+        const data = { fft: new Float32Array([1, 0, 0.5, -0.5]), window: new Float32Array([1, 0.5]) };
+        const decoded = readBeve(writeBeve(data, { complex: ['fft'] }));
+        expect(decoded.fft).toEqual([{ re: 1, im: 0 }, { re: 0.5, im: -0.5 }]);
+        expect(decoded.window).toEqual([1, 0.5]);
+    });
+});
+
+describe("Encoder - Auto Extensions", () => {
+    const users = Array.from({ length: 5 }, (_, i) => ({
+        id: i,
+        joined: new Date(Date.UTC(2024, 0, i + 1)),
+        orders: Array.from({ length: i < 2 ? 5 : 1 }, (_, j) => ({ sku: `A-${j}`, qty: j })),
+    }));
+    const envelope = { ok: true, data: { users, total: users.length } };
+
+    test("should apply typed object arrays at any depth", () => {
+        const { bytes, stats } = encodeAutoWithStats(envelope);
+        expect(bytes.length).toBeLessThan(writeBeve(envelope).length);
+        expect(readBeve(bytes)).toEqual(envelope);
+        expect(encodeAuto(envelope)).toEqual(bytes);
+
+        const typed = stats.applied.filter(a => a.name === "typed-object-array").map(a => a.path);
+        // Innermost first; orders with a single row stay plain arrays
+        expect(typed).toEqual(["data.users.0.orders", "data.users.1.orders", "data.users"]);
+    });
+
+    test("should report every extension applied", () => {
+        const { bytes, stats } = encodeAutoWithStats(envelope);
+        expect(stats.counts).toEqual({ "typed-object-array": 3, timestamp: 5 });
+        const joined = stats.applied.find(a => a.name === "timestamp")!;
+        expect(joined.path).toBe("data.users.0.joined");
+        expect(joined.bytes).toBe(writeBeve(users[0].joined).length);
+
+        const root = stats.applied[stats.applied.length - 1];
+        expect(root.bytes).toBeLessThan(bytes.length);
+    });
+
+    test("should respect minArraySize and plain writeBeve", () => {
+        expect(encodeAutoWithStats(envelope, { minArraySize: 6 }).stats.counts["typed-object-array"]).toBeUndefined();
+        expect(writeBeve(envelope)[0]).toBe(3);
+        expect(readBeve(writeBeve(envelope))).toEqual(envelope);
+    });
+
+    test("should pass options and paths into typed rows and columns", () => {
+        const rows = Array.from({ length: 5 }, (_, i) => ({ price: i + 0.5, tags: ["x"] }));
+        const { bytes, stats } = encodeAutoWithStats({ rows }, { columnar: true, forceFloat32: ["rows.*.price"] });
+        expect(stats.counts).toEqual({ "typed-object-columns": 1 });
+        expect(readBeve(bytes)).toEqual({ rows });
+        expect(bytes.length).toBe(encodeAuto({ rows }, { columnar: true }).length - 5 * 4);
+    });
+});
+
+describe("Encoder - Extension Registry", () => {
+    class GeoPoint {
+        constructor(public lat: number, public lon: number) {}
+    }
+    class Reading {
+        constructor(public sensor: string, public at: bigint, public value: any) {}
+    }
+    const geoPoint = {
+        id: 64,
+        name: "geo-point",
+        test: (value: any) => value instanceof GeoPoint,
+        encode: (point: GeoPoint, writer: Writer) => {
+            writer.append_float64(point.lat);
+            writer.append_float64(point.lon);
+        },
+        decode: (buffer: Uint8Array, cursor: { value: number }) => new GeoPoint(readDouble(buffer, cursor), readDouble(buffer, cursor)),
+    };
+
+    afterEach(() => {
+        unregisterExtension(64);
+        unregisterExtension(20000);
+    });
+
+    test("should write registered types with their extension ID", () => {
+        registerExtension(geoPoint);
+        const bytes = writeBeve(new GeoPoint(52.52, 13.405));
+        // Custom header, then ID 64 as a 2-byte compressed integer
+        expect(Array.from(bytes.subarray(0, 3))).toEqual([0x0f, (64 << 2 | 1) & 0xff, 64 >> 6]);
+        expect(bytes.length).toBe(3 + 16);
+        expect(readBeve(bytes)).toEqual(new GeoPoint(52.52, 13.405));
+    });
+
+    test("should apply at any depth and report stats", () => {
+        registerExtension(geoPoint);
+        const stops = { route: "M10", stops: [new GeoPoint(1, 2), new GeoPoint(3, 4)] };
+        const { bytes, stats } = encodeAutoWithStats(stops);
+        expect(stats.counts).toEqual({ "geo-point": 2 });
+        expect(stats.applied[1]).toEqual({ path: "stops.1", extension: 64, name: "geo-point", bytes: 19 });
+        const decoded = readBeve(bytes);
+        expect(decoded.stops[1]).toBeInstanceOf(GeoPoint);
+        expect(decoded).toEqual(stops);
+    });
+
+    test("should let extensions nest BEVE values", () => {
+        registerExtension<Reading>({
+            id: 20000,
+            name: "sensor-reading",
+            test: value => value instanceof Reading,
+            encode: (reading, writer, ctx) => {
+                writer.append_int64(reading.at);
+                write_child_internal(writer, [reading.sensor, reading.value], ctx, "value");
+            },
+            decode: (buffer, cursor, ctx) => {
+                const at = readBigInt64(buffer, cursor);
+                const [sensor, value] = read_child_internal(buffer, cursor, ctx, "value");
+                return new Reading(sensor, at, value);
+            },
+        });
+        const reading = new Reading("t-1", 1700000000123n, { celsius: 21.5, at: new Date(0) });
+        const bytes = writeBeve([reading]);
+        expect(bytes[2]).toBe(0x0f);
+        expect(readBeve(bytes)).toEqual([reading]);
+    });
+
+    test("should detect conflicts", () => {
+        registerExtension(geoPoint);
+        expect(() => registerExtension({ ...geoPoint, name: "other" })).toThrow(/ID 64 is already registered as 'geo-point'/);
+        expect(() => registerExtension({ ...geoPoint, id: 65 })).toThrow(/name 'geo-point' is already registered/);
+        expect(() => registerExtension({ ...geoPoint, id: 65, name: "uuid" })).toThrow(/already registered with ID 8/);
+        expect(() => registerExtension({ ...geoPoint, id: 12, name: "other" })).toThrow(/reserved/);
+        expect(() => registerExtension({ ...geoPoint, id: 2 ** 30, name: "other" })).toThrow(/Invalid extension ID/);
+        expect(() => registerExtension({ id: 65, name: "half", test: geoPoint.test, decode: geoPoint.decode })).toThrow(/both test and encode/);
+        expect(getExtension(65)).toBeUndefined();
+    });
+
+    test("should register the built-in extensions", () => {
+        expect(getExtension(ExtensionID.UUID)!.name).toBe("uuid");
+        expect(getExtension("timestamp")!.id).toBe(ExtensionID.TIMESTAMP);
+        expect(() => unregisterExtension(ExtensionID.UUID)).toThrow(/built-in/);
+    });
+
+    test("should fail to read unregistered extensions", () => {
+        registerExtension(geoPoint);
+        const bytes = writeBeve(new GeoPoint(0, 0));
+        unregisterExtension(64);
+        expect(() => readBeve(bytes)).toThrow("Unsupported extension ID: 64");
+        expect(writeBeve(new GeoPoint(0, 0))[0]).toBe(3);
+    });
+});
+
+describe("Encoder - Class Instances", () => {
+    class Money {
+        #cents: bigint;
+        constructor(cents: bigint, readonly currency: string) {
+            if (!/^[A-Z]{3}$/.test(currency)) throw new Error(`Invalid currency ${currency}`);
+            this.#cents = cents;
+        }
+        get cents() { return this.#cents; }
+        [BEVE_ENCODE]() { return { cents: this.#cents, currency: this.currency }; }
+        static fromBeve(state: { cents: bigint; currency: string }) { return new Money(state.cents, state.currency); }
+    }
+    class Vector3 {
+        constructor(public x: number, public y: number, public z: number) {}
+        length() { return Math.hypot(this.x, this.y, this.z); }
+    }
+    class Vector4 extends Vector3 {
+        w = 1;
+    }
+
+    afterEach(() => {
+        unregisterClass(Money);
+        unregisterClass(Vector3);
+    });
+
+    test("should rebuild registered classes with private state", () => {
+        registerClass(Money, 1);
+        const decoded = readBeve(writeBeve({ price: new Money(1999n, "EUR") }), { int64: "bigint" });
+        expect(decoded.price).toBeInstanceOf(Money);
+        expect(decoded.price.cents).toBe(1999n);
+        expect(decoded.price.currency).toBe("EUR");
+    });
+
+    test("should rebuild classes without fromBeve from their properties", () => {
+        registerClass(Vector3, 300);
+        const path = [new Vector3(1, 2, 2), new Vector3(0, 3, 4)];
+        const bytes = writeBeve(path);
+        // Class ID 300 is a 2-byte compressed integer
+        expect(Array.from(bytes.subarray(2, 6))).toEqual([0x0f, 0x30, (300 << 2 | 1) & 0xff, 300 >> 6]);
+        const decoded = readBeve(bytes);
+        expect(decoded[1]).toBeInstanceOf(Vector3);
+        expect(decoded.map((v: Vector3) => v.length())).toEqual([3, 5]);
+    });
+
+    test("should report class instances in stats and apply options to their state", () => {
+        registerClass(Vector3, 2);
+        const { bytes, stats } = encodeAutoWithStats({ at: new Vector3(0.5, 1.5, 2.5) }, { forceFloat32: ["at.*"] });
+        expect(stats.applied).toEqual([{ path: "at", extension: ExtensionID.CLASS_INSTANCE, name: "class-instance", bytes: 3 + 2 + 3 * 2 + 3 * 5 }]);
+        expect(readBeve(bytes).at).toEqual(new Vector3(0.5, 1.5, 2.5));
+    });
+
+    test("should leave unregistered classes untagged", () => {
+        registerClass(Vector3, 2);
+        // Subclasses need their own registration
+        expect(readBeve(writeBeve(new Vector4(1, 2, 3)))).toEqual({ x: 1, y: 2, z: 3, w: 1 });
+        // The protocol alone writes the state
+        unregisterClass(Vector3);
+        expect(readBeve(writeBeve(new Money(5n, "USD")))).toEqual({ cents: 5, currency: "USD" });
+    });
+
+    test("should detect conflicts and unknown classes", () => {
+        registerClass(Money, 1);
+        expect(getClassId(Money)).toBe(1);
+        expect(() => registerClass(Vector3, 1)).toThrow("Class ID 1 is already registered for 'Money'");
+        expect(() => registerClass(Money, 2)).toThrow("Class 'Money' is already registered with ID 1");
+        expect(() => registerClass(Vector3, -1)).toThrow(/Invalid class ID/);
+
+        const bytes = writeBeve(new Money(1n, "JPY"));
+        unregisterClass(1);
+        expect(() => readBeve(bytes)).toThrow("Unknown class ID: 1");
+    });
+
+    test("should keep class invariants on read", () => {
+        registerClass(Money, 1);
+        const bytes = writeBeve(new Money(1n, "JPY"));
+        // Corrupt the currency: fromBeve goes through the constructor
+        bytes[bytes.length - 1] = "y".charCodeAt(0);
+        expect(() => readBeve(bytes)).toThrow("Invalid currency JPy");
+    });
+});
+
+describe("Encoder - Replacer", () => {
+    const order = {
+        id: 7,
+        customer: { name: "Ada", password: "hunter2" },
+        lines: [{ sku: "A-1", qty: 2 }, { sku: "B-2", qty: 1 }],
+        note: "gift",
+    };
+
+    test("should call the replacer with JSON.stringify's keys, values and holders", () => {
+        const calls = (record: any[][]) => function (this: any, key: string, value: any) {
+            record.push([this, key, value]);
+            return value;
+        };
+        const beveCalls: any[][] = [];
+        const jsonCalls: any[][] = [];
+        writeBeve(order, { replacer: calls(beveCalls) });
+        JSON.stringify(order, calls(jsonCalls));
+
+        // Each container's children are replaced before any of them is written
+        const sorted = (record: any[][]) => record.map(([, key, value]) => [key, value])
+            .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+        expect(sorted(beveCalls)).toEqual(sorted(jsonCalls));
+        expect(beveCalls[0][0]).toEqual({ "": order });
+        expect(beveCalls.find(([, key]) => key === "password")![0]).toBe(order.customer);
+        expect(beveCalls.find(([, key, value]) => key === "1" && value.sku === "B-2")![0]).toBe(order.lines);
+    });
+
+    test("should write what JSON.stringify would, omitting undefined properties", () => {
+        const replacer = (key: string, value: any) => {
+            if (key === "password") return undefined;
+            if (key === "qty") return value * 10;
+            if (key === "note") return [value, undefined];
+            return value;
+        };
+        const expected = JSON.parse(JSON.stringify(order, replacer));
+        expect(readBeve(writeBeve(order, { replacer }))).toEqual(expected);
+        expect(expected.note).toEqual(["gift", null]);
+    });
+
+    test("should replace the root", () => {
+        const replacer = (key: string, value: any) => key === "" ? { wrapped: value } : value;
+        expect(readBeve(writeBeve(42, { replacer }))).toEqual({ wrapped: 42 });
+    });
+
+    test("should replace Map values under string keys", () => {
+        const seen: string[] = [];
+        const prices = new Map<number, number>([[1, 100], [2, 250]]);
+        const encoded = writeBeve({ prices }, {
+            replacer(key, value) {
+                if (this === prices) {
+                    seen.push(key);
+                    return key === "2" ? undefined : value / 100;
+                }
+                return value;
+            },
+        });
+        expect(seen).toEqual(["1", "2"]);
+        expect(readBeve(encoded)).toEqual({ prices: { "1": 1 } });
+    });
+
+    test("should keep typed object arrays for replaced rows", () => {
+        const users = Array.from({ length: 6 }, (_, i) => ({ name: `user${i}`, password: "secret", age: 20 + i }));
+        const { bytes, stats } = encodeAutoWithStats({ users }, {
+            replacer: (key, value) => key === "password" ? undefined : value,
+        });
+        expect(stats.counts).toEqual({ "typed-object-array": 1 });
+        expect(readBeve(bytes)).toEqual({ users: users.map(({ password, ...rest }) => rest) });
+    });
+
+    test("should replace columnar typed object array fields once", () => {
+        const rows = Array.from({ length: 6 }, (_, i) => ({ id: i + 1, meta: { score: i } }));
+        const keys = (record: string[]) => (key: string, value: any) => (record.push(key), typeof value === "number" ? value * 10 : value);
+        const beveKeys: string[] = [];
+        const jsonKeys: string[] = [];
+        const { bytes, stats } = encodeAutoWithStats(rows, { columnar: true, replacer: keys(beveKeys) });
+        // The rows, and the column of meta objects
+        expect(stats.counts).toEqual({ "typed-object-columns": 2 });
+        expect(readBeve(bytes)).toEqual(JSON.parse(JSON.stringify(rows, keys(jsonKeys))));
+        expect(beveKeys.sort()).toEqual(jsonKeys.sort());
+    });
+
+    test("should reach the elements of typed nested arrays", () => {
+        const matrix = [[1, 2], [3, 4]];
+        const replacer = (key: string, value: any) => typeof value === "number" ? value * 2 : value;
+        const { bytes, stats } = encodeAutoWithStats(matrix, { typedNestedArrays: true, replacer });
+        expect(stats.counts).toEqual({ "typed-nested-array": 1 });
+        expect(readBeve(bytes)).toEqual([[2, 4], [6, 8]]);
+    });
+
+    test("should pass extension values through whole", () => {
+        const when = new Date(Date.UTC(2024, 0, 1));
+        const seen: any[] = [];
+        const decoded = readBeve(writeBeve({ when }, { replacer: (key, value) => (seen.push(value), value) }));
+        expect(seen[1]).toBe(when);
+        expect(decoded.when).toEqual(when);
+    });
+});
+
 describe("Encoder - Performance", () => {
     test("should encode large dataset efficiently", () => {
         const largeData = {
@@ -141,6 +141,23 @@ describe('WASM Integration', () => {
       expect(adaptiveDecode2).toEqual(obj);
     });
 
+    it('should not lose values the WASM bridge cannot represent', async () => {
+      const obj = {
+        created: new Date('2024-01-01T00:00:00Z'),
+        samples: new Float32Array([0.5, 1.5]),
+        ids: [1, 2, 3],
+        payload: new Uint8Array([1, 2, 3]),
+      };
+
+      const decoded = await unmarshal(await marshal(obj));
+
+      expect(decoded.created).toBeInstanceOf(Date);
+      expect(decoded.created.getTime()).toBe(obj.created.getTime());
+      expect(decoded.samples).toEqual([0.5, 1.5]);
+      expect(decoded.ids).toEqual([1, 2, 3]);
+      expect(decoded.payload).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
     it.skip('should handle large arrays identically', async () => {
       // Note: Implementation differences in array encoding (TypeScript vs Go WASM)
       // Both produce valid BEVE but with different optimizations